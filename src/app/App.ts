@@ -5,12 +5,12 @@
  * footer, and main content area. Coordinates between the router and UI components.
  */
 
-import { Router } from './Router'
+import { Router, lazyRender } from './Router'
 import { NavigationBar, updateNavigation } from '../components/NavigationBar'
 import { Footer } from '../components/Footer'
 import { HomePage } from '../pages/Home'
-import { SortingPage } from '../pages/Sorting'
 import type { Route } from '../types/router'
+import '../visualizations/catalog'
 
 /**
  * Application class that initializes and manages the app
@@ -79,7 +79,13 @@ export class App {
       {
         path: '/sorting',
         title: 'Sorting Visualizer - Visualization Platform',
-        render: () => SortingPage(),
+        // Code-split: the page and the sorting module load on first visit
+        render: lazyRender(() => import('../pages/Sorting').then((m) => m.SortingPage)),
+      },
+      {
+        path: '/viz/:category/:id',
+        title: 'Visualization - Visualization Platform',
+        render: lazyRender(() => import('../pages/Visualization').then((m) => m.VisualizationPage)),
       },
     ]
 
@@ -110,7 +116,12 @@ export class App {
     }
 
     return new Router({
+      // History mode is opt-in for hosts that serve the app for unknown paths
+      mode: import.meta.env.VITE_ROUTER_MODE === 'history' ? 'history' : 'hash',
+      base: import.meta.env.BASE_URL,
       root: this.contentElement,
+      // Route the navigation bar's links too
+      linkRoot: this.rootElement,
       routes,
       notFoundRoute,
       afterRouteChange: (route) => {
@@ -1,31 +1,80 @@
 /**
  * Hash-based Router for GitHub Pages Compatibility
  *
- * This router uses hash-based routing (#/path) which works perfectly with
- * GitHub Pages without requiring server configuration. It provides a clean
- * API for managing routes and navigation in the single-page application.
+ * This router uses hash-based routing (#/path) by default, which works
+ * perfectly with GitHub Pages without requiring server configuration. An
+ * opt-in history mode uses clean paths (/path) via the History API; the
+ * build emits a 404.html copy of the app so deep links still resolve.
+ * It provides a clean API for managing routes and navigation in the
+ * single-page application.
  */
 
-import type { Route, RouterConfig, IRouter } from '../types/router';
+import type {
+  Route,
+  RouterConfig,
+  RouterHistory,
+  IRouter,
+  RouteContext,
+  RouteView,
+  RouteParams,
+  RouteQuery,
+  NavigateOptions,
+} from '../types/router';
+import { createBrowserHistory, createHashHistory } from './history';
+
+/**
+ * Result of matching a path against the registered routes
+ */
+interface RouteMatch {
+  route: Route;
+  params: RouteParams;
+}
 
 export class Router implements IRouter {
+  private history: RouterHistory;
+  private interceptLinks: boolean;
+  /** Element whose '#/path' link clicks are routed */
+  private linkRoot: HTMLElement;
   private routes: Map<string, Route>;
+  /** Routes with ':param' segments, tried in registration order after exact matches */
+  private paramRoutes: Route[] = [];
   private root: HTMLElement;
   private notFoundRoute?: Route;
   private beforeRouteChange?: RouterConfig['beforeRouteChange'];
   private afterRouteChange?: RouterConfig['afterRouteChange'];
+  private loadingRenderer?: RouterConfig['renderLoading'];
+  private errorRenderer?: RouterConfig['renderError'];
   private currentPath: string = '';
+  /** View currently rendered into root, unmounted before the next render */
+  private currentView: RouteView | null = null;
+  /** Context handed to the current route; replaceQuery() on older contexts does nothing */
+  private currentContext: RouteContext | null = null;
+  /** Incremented per render so a slow async route can't overwrite a newer one */
+  private renderId: number = 0;
+  /** Incremented per navigation so one that is overtaken while awaiting guards is dropped */
+  private navigationId: number = 0;
+  /** Unsubscribes from the history while the router is started */
+  private unlisten: (() => void) | null = null;
+  private disposed: boolean = false;
 
   /**
    * Creates a new Router instance
    * @param config - Router configuration
    */
   constructor(config: RouterConfig) {
+    const mode = config.mode ?? 'hash';
+    this.history =
+      config.history ??
+      (mode === 'history' ? createBrowserHistory(config.base) : createHashHistory());
+    this.interceptLinks = config.interceptLinks ?? (!config.history && mode === 'history');
     this.root = config.root;
+    this.linkRoot = config.linkRoot ?? config.root;
     this.routes = new Map();
     this.notFoundRoute = config.notFoundRoute;
     this.beforeRouteChange = config.beforeRouteChange;
     this.afterRouteChange = config.afterRouteChange;
+    this.loadingRenderer = config.renderLoading;
+    this.errorRenderer = config.renderError;
 
     // Register all routes
     config.routes.forEach((route) => this.registerRoute(route));
@@ -37,56 +86,87 @@ export class Router implements IRouter {
    */
   public registerRoute(route: Route): void {
     // Normalize path (ensure it starts with /)
-    const normalizedPath = route.path.startsWith('/')
-      ? route.path
-      : `/${route.path}`;
+    const normalizedPath = normalizePath(route.path);
 
-    this.routes.set(normalizedPath, route);
+    if (normalizedPath.split('/').some((segment) => segment.startsWith(':'))) {
+      this.paramRoutes.push({ ...route, path: normalizedPath });
+    } else {
+      this.routes.set(normalizedPath, route);
+    }
   }
 
   /**
-   * Start the router (begin listening to hash changes)
+   * Start the router (begin listening to URL changes)
    */
   public start(): void {
-    // Listen for hash changes
-    window.addEventListener('hashchange', () => this.handleRouteChange());
+    if (this.disposed) {
+      throw new Error('Cannot start a disposed router');
+    }
+    if (this.unlisten) return;
+
+    this.unlisten = this.history.listen(this.handleLocationChange);
+    if (this.interceptLinks) {
+      this.linkRoot.addEventListener('click', this.handleLinkClick);
+    }
 
     // Handle initial route
     this.handleRouteChange();
   }
 
   /**
-   * Stop the router (stop listening to hash changes)
+   * Stop the router (stop listening to URL changes)
+   * The current page stays rendered; start() resumes routing.
    */
   public stop(): void {
-    window.removeEventListener('hashchange', () => this.handleRouteChange());
+    this.unlisten?.();
+    this.unlisten = null;
+    this.linkRoot.removeEventListener('click', this.handleLinkClick);
+  }
+
+  /**
+   * Stop the router, unmount the current page and clear the root element
+   * A disposed router can't be started again.
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+
+    this.stop();
+    this.disposed = true;
+
+    // Drop any navigation or route that is still in progress
+    this.navigationId++;
+    this.renderId++;
+    this.currentContext = null;
+    this.unmountCurrentView();
+    this.root.innerHTML = '';
+    this.currentPath = '';
   }
 
   /**
    * Navigate to a specific route
-   * @param path - Route path to navigate to
+   * @param path - Route path to navigate to, may contain ':param' segments
+   * @param options - Path parameter values and query string parameters
    */
-  public async navigate(path: string): Promise<void> {
-    // Normalize path
-    const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  public async navigate(path: string, options: NavigateOptions = {}): Promise<void> {
+    // The entry is only added once the guards allow leaving the current page
+    await this.handleRouteChange(buildPath(path, options.params, options.query));
+  }
 
-    // Update hash (this will trigger hashchange event)
-    window.location.hash = normalizedPath;
+  /**
+   * Get the href for a route path in the current mode
+   * @param path - Route path, may include a query string
+   * @returns '#/path' in hash mode, '/base/path' in history mode
+   */
+  public createHref(path: string): string {
+    return this.history.createHref(path);
   }
 
   /**
-   * Get the current route path from URL hash
+   * Get the current route path from the history
    * @returns Current route path
    */
   public getCurrentRoute(): string {
-    const hash = window.location.hash;
-
-    // Remove # and return path, default to '/'
-    if (!hash || hash === '#' || hash === '#/') {
-      return '/';
-    }
-
-    return hash.slice(1); // Remove the # character
+    return this.history.getPath();
   }
 
   /**
@@ -94,43 +174,167 @@ export class Router implements IRouter {
    * @returns Current route object or undefined
    */
   public getCurrentRouteObject(): Route | undefined {
-    const path = this.getCurrentRoute();
-    return this.routes.get(path);
+    const { path } = splitQuery(this.getCurrentRoute());
+    return this.matchRoute(path)?.route;
+  }
+
+  /**
+   * Find the route matching a path (without query string)
+   * Exact paths take precedence over parameterized ones.
+   * @param path - Path to match
+   * @returns Matched route and its parameters, or null
+   */
+  private matchRoute(path: string): RouteMatch | null {
+    const normalizedPath = normalizePath(path);
+
+    const exact = this.routes.get(normalizedPath);
+    if (exact) {
+      return { route: exact, params: {} };
+    }
+
+    const segments = normalizedPath.split('/');
+
+    for (const route of this.paramRoutes) {
+      const patternSegments = route.path.split('/');
+      if (patternSegments.length !== segments.length) continue;
+
+      const params: RouteParams = {};
+      const matches = patternSegments.every((pattern, i) => {
+        const segment = segments[i]!;
+        if (!pattern.startsWith(':')) {
+          return pattern === segment;
+        }
+        if (segment === '') return false;
+        try {
+          params[pattern.slice(1)] = decodeURIComponent(segment);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+
+      if (matches) {
+        return { route, params };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle hashchange and popstate events
+   */
+  private handleLocationChange = (): void => {
+    void this.handleRouteChange();
+  };
+
+  /**
+   * Route clicks on in-app '#/path' links (including createRouterLink anchors)
+   */
+  private handleLinkClick = (event: MouseEvent): void => {
+    // Leave modified clicks (new tab, download, ...) to the browser
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey
+    ) {
+      return;
+    }
+
+    const link = event.target instanceof Element ? event.target.closest('a') : null;
+    const href = link?.getAttribute('href');
+    if (!link || !href?.startsWith('#/') || (link.target && link.target !== '_self')) {
+      return;
+    }
+
+    event.preventDefault();
+    void this.navigate(href.slice(1));
+  };
+
+  /**
+   * Replace the query string of the current route without rendering again
+   * @param path - Route path without query string
+   * @param query - New query parameters or query string
+   */
+  private replaceQuery(path: string, query: RouteQuery | string): void {
+    const queryString = new URLSearchParams(query).toString();
+    const target = queryString ? `${path}?${queryString}` : path;
+    this.currentPath = target;
+    this.history.replace(target);
   }
 
   /**
    * Handle route changes
+   * @param pushPath - Path to add to the history once the guards pass (for navigate());
+   *   omitted when the history has already changed (back/forward, edited URL)
    */
-  private async handleRouteChange(): Promise<void> {
-    const newPath = this.getCurrentRoute();
+  private async handleRouteChange(pushPath?: string): Promise<void> {
+    if (this.disposed) return;
+
+    const newPath = pushPath ?? this.getCurrentRoute();
     const oldPath = this.currentPath;
 
     // Check if route actually changed
     if (newPath === oldPath) {
       return;
     }
+    const navigationId = ++this.navigationId;
+
+    // Let the current page veto leaving (e.g., while an animation is playing)
+    if (this.currentView?.canLeave) {
+      const canLeave = await this.currentView.canLeave(newPath);
+      // A newer navigation started while this one waited
+      if (navigationId !== this.navigationId) return;
+      if (!canLeave) {
+        this.revertNavigation(oldPath, pushPath);
+        return;
+      }
+    }
 
     // Call beforeRouteChange hook if defined
     if (this.beforeRouteChange) {
       const shouldContinue = await this.beforeRouteChange(oldPath, newPath);
+      if (navigationId !== this.navigationId) return;
       if (!shouldContinue) {
-        // Revert navigation
-        window.location.hash = oldPath;
+        this.revertNavigation(oldPath, pushPath);
         return;
       }
     }
 
+    if (pushPath !== undefined) {
+      this.history.push(pushPath);
+    }
+
     // Find matching route
-    const route = this.routes.get(newPath);
+    const { path, query } = splitQuery(newPath);
+    const match = this.matchRoute(path);
+    const route = match?.route;
+    const context: RouteContext = {
+      path: normalizePath(path),
+      params: match?.params ?? {},
+      query: parseQuery(query),
+      replaceQuery: (nextQuery) => {
+        // A page being unmounted may still try to update the URL
+        if (this.currentContext === context) {
+          this.replaceQuery(normalizePath(path), nextQuery);
+        }
+      },
+    };
 
     if (route) {
-      await this.renderRoute(route);
       this.currentPath = newPath;
+      await this.renderRoute(route, context);
     } else if (this.notFoundRoute) {
-      await this.renderRoute(this.notFoundRoute);
       this.currentPath = newPath;
+      await this.renderRoute(this.notFoundRoute, context);
     } else {
       console.error(`Route not found: ${newPath}`);
+      this.renderId++;
+      this.currentContext = null;
+      this.unmountCurrentView();
       this.root.innerHTML = `
         <div class="error">
           <h1>404 - Page Not Found</h1>
@@ -140,45 +344,217 @@ export class Router implements IRouter {
       `;
     }
 
-    // Call afterRouteChange hook if defined
-    if (this.afterRouteChange && route) {
-      this.afterRouteChange(route);
+    // Call afterRouteChange hook if defined, unless a newer navigation replaced this render
+    if (this.afterRouteChange && route && navigationId === this.navigationId) {
+      this.afterRouteChange(route, context);
+    }
+  }
+
+  /**
+   * Restore the previous URL after a navigation was vetoed
+   * @param oldPath - Path to go back to
+   * @param pushPath - Path of a navigate() call, which hasn't touched the history yet
+   */
+  private revertNavigation(oldPath: string, pushPath?: string): void {
+    if (pushPath === undefined) {
+      this.history.replace(oldPath || '/');
     }
   }
 
   /**
    * Render a route
    * @param route - Route to render
+   * @param context - Matched path, parameters and query
    */
-  private async renderRoute(route: Route): Promise<void> {
+  private async renderRoute(route: Route, context: RouteContext): Promise<void> {
+    const renderId = ++this.renderId;
+
     try {
       // Update document title
-      document.title = route.title;
+      this.root.ownerDocument.title = route.title;
 
-      // Clear current content
+      // Release the current page before clearing it
+      this.currentContext = context;
+      this.unmountCurrentView();
       this.root.innerHTML = '';
 
-      // Render new content
-      const content = await route.render();
-      this.root.appendChild(content);
+      // Render new content, showing a loading indicator for async routes
+      let content = route.render(context);
+      if (content instanceof Promise) {
+        this.root.appendChild(this.renderLoading());
+        content = await content;
+
+        // Another navigation started while this route was loading
+        if (renderId !== this.renderId) return;
+        this.root.innerHTML = '';
+      }
+
+      const view = content instanceof HTMLElement ? { element: content } : content;
+      this.root.appendChild(view.element);
+      this.currentView = view;
+      view.mount?.();
 
       // Scroll to top on route change
-      window.scrollTo(0, 0);
+      this.root.ownerDocument.defaultView?.scrollTo(0, 0);
     } catch (error) {
+      if (renderId !== this.renderId) return;
+
       console.error('Error rendering route:', error);
-      this.root.innerHTML = `
-        <div class="error">
-          <h1>Error</h1>
-          <p>Failed to load page. Please try again.</p>
-          <a href="#/">Go Home</a>
-        </div>
-      `;
+      this.root.innerHTML = '';
+      this.root.appendChild(
+        this.renderError(error, () => {
+          void this.renderRoute(route, context);
+        })
+      );
+    }
+  }
+
+  /**
+   * Create the loading indicator for async routes
+   * @returns Loading content
+   */
+  private renderLoading(): HTMLElement {
+    if (this.loadingRenderer) {
+      return this.loadingRenderer();
     }
+
+    const loading = this.root.ownerDocument.createElement('div');
+    loading.className = 'loading';
+    loading.style.minHeight = '60vh';
+    loading.setAttribute('role', 'status');
+    loading.innerHTML = '<span class="spinner" aria-label="Loading page"></span>';
+    return loading;
   }
+
+  /**
+   * Create the fallback shown when a route fails to render
+   * @param error - Error thrown by the route
+   * @param retry - Renders the route again
+   * @returns Error content
+   */
+  private renderError(error: unknown, retry: () => void): HTMLElement {
+    if (this.errorRenderer) {
+      return this.errorRenderer(error, retry);
+    }
+
+    const container = this.root.ownerDocument.createElement('div');
+    container.className = 'error';
+    container.setAttribute('role', 'alert');
+    container.innerHTML = `
+      <h1>Error</h1>
+      <p>Failed to load page. Please try again.</p>
+      <div class="cluster">
+        <button type="button" class="btn-secondary">Try again</button>
+        <a href="#/">Go Home</a>
+      </div>
+    `;
+    container.querySelector('button')?.addEventListener('click', retry);
+    return container;
+  }
+
+  /**
+   * Run the current view's unmount hook and forget it
+   */
+  private unmountCurrentView(): void {
+    const view = this.currentView;
+    this.currentView = null;
+
+    try {
+      view?.unmount?.();
+    } catch (error) {
+      console.error('Error unmounting route:', error);
+    }
+  }
+}
+
+/**
+ * Normalize a path (leading slash, no trailing slash except for root)
+ * @param path - Path to normalize
+ * @returns Normalized path
+ */
+function normalizePath(path: string): string {
+  const withSlash = path.startsWith('/') ? path : `/${path}`;
+  return withSlash.length > 1 && withSlash.endsWith('/')
+    ? withSlash.slice(0, -1)
+    : withSlash;
+}
+
+/**
+ * Split a route path into its path and query string
+ * @param path - Path, possibly followed by ?query
+ * @returns Path and query string (without '?')
+ */
+function splitQuery(path: string): { path: string; query: string } {
+  const queryStart = path.indexOf('?');
+  return queryStart === -1
+    ? { path, query: '' }
+    : { path: path.slice(0, queryStart), query: path.slice(queryStart + 1) };
+}
+
+/**
+ * Parse a query string into an object (the last value wins for repeated keys)
+ * @param query - Query string without '?'
+ * @returns Query parameters
+ */
+export function parseQuery(query: string): RouteQuery {
+  return Object.fromEntries(new URLSearchParams(query));
+}
+
+/**
+ * Build a route path from a pattern, parameters and query
+ * @param path - Path, may contain ':param' segments
+ * @param params - Values for ':param' segments
+ * @param query - Query string parameters
+ * @returns Path with parameters filled in and query string appended
+ * @throws Error if a parameter in the path has no value
+ */
+export function buildPath(path: string, params: RouteParams = {}, query: RouteQuery = {}): string {
+  const filled = normalizePath(path)
+    .split('/')
+    .map((segment) => {
+      if (!segment.startsWith(':')) return segment;
+      const value = params[segment.slice(1)];
+      if (value === undefined) {
+        throw new Error(`Missing value for route parameter "${segment}" in ${path}`);
+      }
+      return encodeURIComponent(value);
+    })
+    .join('/');
+
+  const queryString = new URLSearchParams(query).toString();
+  return queryString ? `${filled}?${queryString}` : filled;
+}
+
+/**
+ * Create a render function that loads its page module on first use
+ * The module is fetched once and reused; a failed load is retried on the next render.
+ * @param load - Loader resolving to the page's render function (e.g., via dynamic import)
+ * @returns Async render function for a route
+ *
+ * @example
+ * ```typescript
+ * render: lazyRender(() => import('../pages/Sorting').then((m) => m.SortingPage))
+ * ```
+ */
+export function lazyRender(load: () => Promise<Route['render']>): Route['render'] {
+  let loading: Promise<Route['render']> | null = null;
+
+  return async (context) => {
+    if (!loading) {
+      loading = load().catch((error: unknown) => {
+        loading = null;
+        throw error;
+      });
+    }
+    const render = await loading;
+    return await render(context);
+  };
 }
 
 /**
  * Create a link that navigates using the router
+ * The link uses a '#/path' href in both modes; in history mode the router
+ * intercepts clicks on it and navigates to the clean path instead.
  * @param path - Path to navigate to
  * @param text - Link text
  * @param className - Optional CSS class
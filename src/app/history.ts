@@ -0,0 +1,152 @@
+/**
+ * History adapters for the Router
+ *
+ * Each adapter stores the route path somewhere different: the URL hash,
+ * the URL path (History API) or an in-memory stack for tests and embedded
+ * demos. push() and replace() never notify listeners; listen() only
+ * reports changes the router didn't make (back/forward, edited URLs).
+ */
+
+import type { RouterHistory } from '../types/router';
+
+/**
+ * In-memory history with explicit back/forward navigation
+ */
+export interface MemoryHistory extends RouterHistory {
+  /** All entries, oldest first */
+  readonly entries: readonly string[];
+  /** Index of the current entry */
+  readonly index: number;
+  /** Move through the stack by delta entries and notify listeners */
+  go(delta: number): void;
+  /** Go back one entry */
+  back(): void;
+  /** Go forward one entry */
+  forward(): void;
+}
+
+/**
+ * Store routes in the URL hash ('#/path')
+ * @param win - Window whose location is used (e.g., an iframe's contentWindow)
+ * @returns Hash history adapter
+ */
+export function createHashHistory(win: Window = window): RouterHistory {
+  return {
+    getPath() {
+      const hash = win.location.hash;
+
+      // Remove # and return path, default to '/'
+      if (!hash || hash === '#' || hash === '#/') {
+        return '/';
+      }
+      return hash.slice(1);
+    },
+    push(path) {
+      win.history.pushState(null, '', `#${path}`);
+    },
+    replace(path) {
+      win.history.replaceState(win.history.state, '', `#${path}`);
+    },
+    listen(callback) {
+      win.addEventListener('hashchange', callback);
+      return () => win.removeEventListener('hashchange', callback);
+    },
+    createHref(path) {
+      return `#${path}`;
+    },
+  };
+}
+
+/**
+ * Store routes in the URL path ('/base/path') using the History API
+ * Old '#/path' URLs are rewritten to clean paths when the history is created.
+ * @param base - Base path the app is served from
+ * @param win - Window whose location is used
+ * @returns Browser history adapter
+ */
+export function createBrowserHistory(base: string = '/', win: Window = window): RouterHistory {
+  // Base without trailing slash ('' when served from '/')
+  const prefix = `/${base}`.replace(/\/+/g, '/').replace(/\/$/, '');
+
+  const history: RouterHistory = {
+    getPath() {
+      const { pathname, search } = win.location;
+      const inBase = pathname === prefix || pathname.startsWith(`${prefix}/`);
+      const path = inBase ? pathname.slice(prefix.length) : pathname;
+      return `${path || '/'}${search}`;
+    },
+    push(path) {
+      win.history.pushState(null, '', history.createHref(path));
+    },
+    replace(path) {
+      win.history.replaceState(win.history.state, '', history.createHref(path));
+    },
+    listen(callback) {
+      win.addEventListener('popstate', callback);
+      return () => win.removeEventListener('popstate', callback);
+    },
+    createHref(path) {
+      return `${prefix}${path.startsWith('/') ? path : `/${path}`}`;
+    },
+  };
+
+  if (win.location.hash.startsWith('#/')) {
+    history.replace(win.location.hash.slice(1));
+  }
+
+  return history;
+}
+
+/**
+ * Keep routes in memory, without touching the page URL
+ * @param initialPath - Path of the first entry
+ * @returns Memory history adapter
+ */
+export function createMemoryHistory(initialPath: string = '/'): MemoryHistory {
+  const entries: string[] = [initialPath];
+  let index = 0;
+  const listeners = new Set<() => void>();
+
+  const history: MemoryHistory = {
+    get entries() {
+      return entries;
+    },
+    get index() {
+      return index;
+    },
+    getPath() {
+      return entries[index] ?? '/';
+    },
+    push(path) {
+      // Drop forward entries, as browsers do
+      entries.splice(index + 1, entries.length, path);
+      index = entries.length - 1;
+    },
+    replace(path) {
+      entries[index] = path;
+    },
+    listen(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+    createHref(path) {
+      return `#${path}`;
+    },
+    go(delta) {
+      const next = Math.min(entries.length - 1, Math.max(0, index + delta));
+      if (next === index) return;
+      index = next;
+      listeners.forEach((listener) => listener());
+    },
+    back() {
+      history.go(-1);
+    },
+    forward() {
+      history.go(1);
+    },
+  };
+
+  return history;
+}
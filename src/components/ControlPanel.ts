@@ -2,7 +2,7 @@
  * Control Panel Component
  *
  * A reusable UI component for controlling visualization playback.
- * Provides play/pause, step, reset, and speed controls.
+ * Provides play/pause, step, reset, speed, and timeline controls.
  */
 
 import type { PlaybackState, SpeedPreset } from '../visualizations/core/types'
@@ -16,10 +16,14 @@ export interface ControlPanelConfig {
   showPlayPause: boolean
   /** Show step button */
   showStep: boolean
+  /** Show step back button */
+  showStepBack: boolean
   /** Show reset button */
   showReset: boolean
   /** Show speed controls */
   showSpeed: boolean
+  /** Show timeline scrubber */
+  showTimeline: boolean
   /** Available speed presets */
   speedPresets: SpeedPreset[]
   /** Initial speed preset index */
@@ -32,8 +36,10 @@ export interface ControlPanelConfig {
 export const DEFAULT_CONTROL_PANEL_CONFIG: ControlPanelConfig = {
   showPlayPause: true,
   showStep: true,
+  showStepBack: true,
   showReset: true,
   showSpeed: true,
+  showTimeline: true,
   speedPresets: DEFAULT_SPEED_PRESETS,
   initialSpeedIndex: 1, // 'Normal'
 }
@@ -45,6 +51,8 @@ export interface ControlPanelCallbacks {
   onPlay?: () => void
   onPause?: () => void
   onStep?: () => void
+  onStepBack?: () => void
+  onSeek?: (stepIndex: number) => void
   onReset?: () => void
   onSpeedChange?: (preset: SpeedPreset) => void
 }
@@ -59,11 +67,19 @@ export class ControlPanel {
 
   private playButton: HTMLButtonElement | null = null
   private stepButton: HTMLButtonElement | null = null
+  private stepBackButton: HTMLButtonElement | null = null
   private resetButton: HTMLButtonElement | null = null
   private speedSelect: HTMLSelectElement | null = null
+  private timelineSlider: HTMLInputElement | null = null
+  private timelineLabel: HTMLElement | null = null
+  private startButton: HTMLButtonElement | null = null
+  private endButton: HTMLButtonElement | null = null
 
   private currentState: PlaybackState = 'idle'
   private currentSpeedIndex: number
+  private currentStep = 0
+  private totalSteps = 0
+  private enabled = true
 
   constructor(
     container: HTMLElement,
@@ -95,6 +111,12 @@ export class ControlPanel {
       controls.appendChild(this.playButton)
     }
 
+    // Step back button
+    if (this.config.showStepBack) {
+      this.stepBackButton = this.createButton('step-back', 'Back', 'control-panel__btn--secondary')
+      controls.appendChild(this.stepBackButton)
+    }
+
     // Step button
     if (this.config.showStep) {
       this.stepButton = this.createButton('step', 'Step', 'control-panel__btn--secondary')
@@ -135,6 +157,36 @@ export class ControlPanel {
     }
 
     this.container.appendChild(controls)
+
+    // Timeline scrubber
+    if (this.config.showTimeline) {
+      const timeline = document.createElement('div')
+      timeline.className = 'control-panel__timeline'
+
+      this.startButton = this.createButton('seek-start', '⏮', 'control-panel__btn--icon')
+      this.startButton.setAttribute('aria-label', 'Jump to start')
+
+      this.timelineSlider = document.createElement('input')
+      this.timelineSlider.type = 'range'
+      this.timelineSlider.id = 'timeline-slider'
+      this.timelineSlider.className = 'control-panel__timeline-slider'
+      this.timelineSlider.min = '0'
+      this.timelineSlider.setAttribute('aria-label', 'Timeline')
+
+      this.endButton = this.createButton('seek-end', '⏭', 'control-panel__btn--icon')
+      this.endButton.setAttribute('aria-label', 'Jump to end')
+
+      this.timelineLabel = document.createElement('span')
+      this.timelineLabel.className = 'control-panel__timeline-label'
+
+      timeline.appendChild(this.startButton)
+      timeline.appendChild(this.timelineSlider)
+      timeline.appendChild(this.endButton)
+      timeline.appendChild(this.timelineLabel)
+      this.container.appendChild(timeline)
+
+      this.updateTimeline()
+    }
   }
 
   /**
@@ -165,6 +217,23 @@ export class ControlPanel {
       this.callbacks.onStep?.()
     })
 
+    this.stepBackButton?.addEventListener('click', () => {
+      this.callbacks.onStepBack?.()
+    })
+
+    this.timelineSlider?.addEventListener('input', () => {
+      const index = parseInt(this.timelineSlider!.value, 10)
+      this.callbacks.onSeek?.(index)
+    })
+
+    this.startButton?.addEventListener('click', () => {
+      this.callbacks.onSeek?.(0)
+    })
+
+    this.endButton?.addEventListener('click', () => {
+      this.callbacks.onSeek?.(this.totalSteps)
+    })
+
     this.resetButton?.addEventListener('click', () => {
       this.callbacks.onReset?.()
     })
@@ -212,7 +281,44 @@ export class ControlPanel {
 
     // Disable step during playback
     if (this.stepButton) {
-      this.stepButton.disabled = state === 'playing'
+      this.stepButton.disabled = !this.enabled || state === 'playing'
+    }
+
+    this.updateTimeline()
+  }
+
+  /**
+   * Update the timeline position
+   * @param stepIndex Number of steps executed
+   * @param totalSteps Total number of steps (0 if not yet generated)
+   */
+  setProgress(stepIndex: number, totalSteps: number): void {
+    this.currentStep = stepIndex
+    this.totalSteps = totalSteps
+    this.updateTimeline()
+  }
+
+  /**
+   * Sync timeline slider, label, and seek buttons with the current position
+   */
+  private updateTimeline(): void {
+    const hasSteps = this.totalSteps > 0
+    const seekable = this.enabled && hasSteps
+
+    if (this.timelineSlider) {
+      this.timelineSlider.max = this.totalSteps.toString()
+      this.timelineSlider.value = this.currentStep.toString()
+      this.timelineSlider.disabled = !seekable
+    }
+
+    if (this.timelineLabel) {
+      this.timelineLabel.textContent = `Step ${this.currentStep.toLocaleString()} / ${this.totalSteps.toLocaleString()}`
+    }
+
+    if (this.startButton) this.startButton.disabled = !seekable || this.currentStep === 0
+    if (this.endButton) this.endButton.disabled = !seekable || this.currentStep >= this.totalSteps
+    if (this.stepBackButton) {
+      this.stepBackButton.disabled = !seekable || this.currentStep === 0 || this.currentState === 'playing'
     }
   }
 
@@ -239,10 +345,12 @@ export class ControlPanel {
    * Enable/disable all controls
    */
   setEnabled(enabled: boolean): void {
+    this.enabled = enabled
     if (this.playButton) this.playButton.disabled = !enabled
     if (this.stepButton) this.stepButton.disabled = !enabled
     if (this.resetButton) this.resetButton.disabled = !enabled
     if (this.speedSelect) this.speedSelect.disabled = !enabled
+    this.updateTimeline()
   }
 
   /**
@@ -340,5 +448,35 @@ export function getControlPanelStyles(): string {
       outline: none;
       border-color: var(--color-primary);
     }
+
+    .control-panel__timeline {
+      display: flex;
+      align-items: center;
+      gap: var(--space-sm);
+      margin-top: var(--space-md);
+    }
+
+    .control-panel__timeline-slider {
+      flex: 1;
+      min-width: 0;
+      margin: 0;
+    }
+
+    .control-panel__timeline-label {
+      color: var(--color-text-secondary);
+      font-size: var(--font-size-sm);
+      font-variant-numeric: tabular-nums;
+      white-space: nowrap;
+    }
+
+    .control-panel__btn--icon {
+      padding: var(--space-xs) var(--space-sm);
+      background: var(--color-surface-hover);
+      color: var(--color-text);
+    }
+
+    .control-panel__btn--icon:hover:not(:disabled) {
+      background: var(--color-border);
+    }
   `
 }
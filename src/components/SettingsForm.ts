@@ -0,0 +1,384 @@
+/**
+ * Settings Form Component
+ *
+ * Generates a settings form from config field metadata, writes edits
+ * through a ConfigManager (showing validation errors inline) and follows
+ * the manager through subscribe(), optionally keeping a visualization's
+ * config in sync.
+ */
+
+import { ConfigManager, ConfigValidationError } from '../visualizations/core/ConfigManager'
+import type { ConfigField, ConfigFields } from '../visualizations/core/ConfigManager'
+import type { Visualization } from '../visualizations/core/Visualization'
+import type { BaseVisualizationConfig } from '../visualizations/core/types'
+
+/**
+ * Settings form options
+ */
+export interface SettingsFormOptions<T extends BaseVisualizationConfig> {
+  /** Visualization to update when settings change */
+  visualization?: Visualization<T>
+  /** Prefix for control IDs, needed when a page shows several forms */
+  idPrefix: string
+}
+
+/** Controls created for a field */
+interface FieldControls {
+  row: HTMLElement
+  field: ConfigField
+  control: HTMLInputElement | HTMLSelectElement
+  value: HTMLElement | null
+  error: HTMLElement
+}
+
+/**
+ * Settings Form Component
+ */
+export class SettingsForm<T extends BaseVisualizationConfig = BaseVisualizationConfig> {
+  private container: HTMLElement
+  private manager: ConfigManager<T>
+  private fields: ConfigFields<T>
+  private options: SettingsFormOptions<T>
+  private controls: Map<keyof T, FieldControls> = new Map()
+  private unsubscribe: (() => void) | null = null
+
+  constructor(
+    container: HTMLElement,
+    manager: ConfigManager<T>,
+    fields: ConfigFields<T>,
+    options: Partial<SettingsFormOptions<T>> = {}
+  ) {
+    this.container = container
+    this.manager = manager
+    this.fields = fields
+    this.options = { idPrefix: 'settings', ...options }
+
+    this.render()
+    this.unsubscribe = this.manager.subscribe((config, changedKeys) => {
+      this.handleConfigChange(config, changedKeys)
+    })
+  }
+
+  /**
+   * Render a control for every field with metadata
+   */
+  private render(): void {
+    this.container.innerHTML = ''
+    this.container.className = 'settings-form'
+    this.controls.clear()
+
+    const config = this.manager.get()
+
+    for (const key of Object.keys(this.fields) as (keyof T & string)[]) {
+      const field = this.fields[key]
+      if (!field) continue
+
+      const id = `${this.options.idPrefix}-${key}`
+      const row = document.createElement('div')
+      row.className = `settings-form__field settings-form__field--${field.control}`
+
+      const control = this.createControl(id, field, config[key])
+      const label = document.createElement('label')
+      label.htmlFor = id
+
+      let value: HTMLElement | null = null
+
+      if (field.control === 'checkbox') {
+        label.appendChild(control)
+        label.append(` ${field.label}`)
+        row.appendChild(label)
+      } else {
+        label.textContent = field.label
+        row.appendChild(label)
+
+        const controlRow = document.createElement('div')
+        controlRow.className = 'settings-form__control'
+        controlRow.appendChild(control)
+
+        if (field.control === 'range') {
+          value = document.createElement('span')
+          value.className = 'settings-form__value'
+          value.textContent = String(config[key])
+          controlRow.appendChild(value)
+        }
+        row.appendChild(controlRow)
+      }
+
+      if (field.hint) {
+        const hint = document.createElement('small')
+        hint.className = 'settings-form__hint'
+        hint.textContent = field.hint
+        row.appendChild(hint)
+      }
+
+      const error = document.createElement('span')
+      error.className = 'settings-form__error'
+      error.id = `${id}-error`
+      error.setAttribute('role', 'alert')
+      control.setAttribute('aria-describedby', error.id)
+      row.appendChild(error)
+
+      const eventName = field.control === 'select' || field.control === 'checkbox' ? 'change' : 'input'
+      control.addEventListener(eventName, () => this.handleInput(key))
+
+      this.controls.set(key, { row, field, control, value, error })
+      this.container.appendChild(row)
+    }
+  }
+
+  /**
+   * Create the input element for a field
+   */
+  private createControl(
+    id: string,
+    field: ConfigField,
+    value: unknown
+  ): HTMLInputElement | HTMLSelectElement {
+    if (field.control === 'select') {
+      const select = document.createElement('select')
+      select.id = id
+      for (const [choice, name] of Object.entries(field.choices ?? {})) {
+        const option = document.createElement('option')
+        option.value = choice
+        option.textContent = name
+        select.appendChild(option)
+      }
+      select.value = String(value)
+      return select
+    }
+
+    const input = document.createElement('input')
+    input.id = id
+    input.type = field.control
+
+    if (field.control === 'checkbox') {
+      input.checked = value === true
+      return input
+    }
+
+    if (field.min !== undefined) input.min = field.min.toString()
+    if (field.max !== undefined) input.max = field.max.toString()
+    if (field.step !== undefined) input.step = field.step.toString()
+    input.value = String(value)
+    return input
+  }
+
+  /**
+   * Read a control, typed like the field's default value
+   */
+  private readControl(key: keyof T, controls: FieldControls): T[keyof T] {
+    const { control, field } = controls
+
+    if (control instanceof HTMLInputElement && field.control === 'checkbox') {
+      return control.checked as T[keyof T]
+    }
+    if (typeof this.manager.getDefault(key) === 'number') {
+      return (control.value.trim() === '' ? Number.NaN : Number(control.value)) as T[keyof T]
+    }
+    return control.value as T[keyof T]
+  }
+
+  /**
+   * Validate and apply an edited field
+   */
+  private handleInput(key: keyof T): void {
+    const controls = this.controls.get(key)
+    if (!controls) return
+
+    const value = this.readControl(key, controls)
+    if (controls.value) {
+      controls.value.textContent = String(value)
+    }
+
+    try {
+      if (typeof value === 'number' && Number.isNaN(value)) {
+        throw new ConfigValidationError(String(key), value, 'Enter a number')
+      }
+      const partial: Partial<T> = {}
+      partial[key] = value
+      this.manager.set(partial)
+      this.setError(controls, null)
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError)) throw err
+      this.setError(controls, err.reason)
+    }
+  }
+
+  /**
+   * Show or clear a field's validation message
+   */
+  private setError(controls: FieldControls, message: string | null): void {
+    controls.error.textContent = message ?? ''
+    if (message) {
+      controls.control.setAttribute('aria-invalid', 'true')
+    } else {
+      controls.control.removeAttribute('aria-invalid')
+    }
+  }
+
+  /**
+   * Reflect config changes (from this form or elsewhere) in the controls and visualization
+   */
+  private handleConfigChange(config: T, changedKeys: (keyof T)[]): void {
+    const changes: Partial<T> = {}
+
+    for (const key of changedKeys) {
+      changes[key] = config[key]
+
+      const controls = this.controls.get(key)
+      if (!controls) continue
+
+      const { control, value } = controls
+      if (control instanceof HTMLInputElement && control.type === 'checkbox') {
+        control.checked = config[key] === true
+      } else if (control !== document.activeElement) {
+        control.value = String(config[key])
+      }
+      if (value) {
+        value.textContent = String(config[key])
+      }
+      this.setError(controls, null)
+    }
+
+    this.options.visualization?.updateConfig(changes)
+  }
+
+  /**
+   * Get the config manager the form edits
+   * Changes made elsewhere (e.g., on resize) go through it so the form stays in sync.
+   */
+  getManager(): ConfigManager<T> {
+    return this.manager
+  }
+
+  /**
+   * Show or hide a field (e.g., settings that only apply to some algorithms)
+   */
+  setFieldVisible(key: keyof T, visible: boolean): void {
+    const controls = this.controls.get(key)
+    if (controls) {
+      controls.row.hidden = !visible
+    }
+  }
+
+  /**
+   * Enable or disable all controls
+   */
+  setEnabled(enabled: boolean): void {
+    for (const { control } of this.controls.values()) {
+      control.disabled = !enabled
+    }
+  }
+
+  /**
+   * Destroy the settings form
+   */
+  destroy(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.controls.clear()
+    this.container.innerHTML = ''
+  }
+}
+
+/**
+ * Create a settings form for a visualization from its own schema and field metadata
+ * @param container Element to render the form into
+ * @param visualization Visualization whose config the form edits
+ * @param idPrefix Prefix for control IDs
+ */
+export function createVisualizationSettings<T extends BaseVisualizationConfig>(
+  container: HTMLElement,
+  visualization: Visualization<T>,
+  idPrefix = 'settings'
+): SettingsForm<T> {
+  const manager = new ConfigManager<T>(
+    visualization.getConfig(),
+    visualization.getConfigSchema(),
+    visualization.getCrossFieldRules()
+  )
+  return new SettingsForm(container, manager, visualization.getConfigFields(), {
+    visualization,
+    idPrefix,
+  })
+}
+
+/**
+ * Create settings form CSS styles
+ */
+export function getSettingsFormStyles(): string {
+  return `
+    .settings-form {
+      display: grid;
+      grid-template-columns: 1fr;
+      gap: var(--space-md);
+      padding: var(--space-md);
+      background: var(--color-surface);
+      border-radius: var(--radius-md);
+      border: 1px solid var(--color-border);
+    }
+
+    @media (min-width: 768px) {
+      .settings-form {
+        grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+      }
+    }
+
+    .settings-form__field {
+      display: flex;
+      flex-direction: column;
+      gap: var(--space-xs);
+    }
+
+    .settings-form__field[hidden] {
+      display: none;
+    }
+
+    .settings-form__field label {
+      font-size: var(--font-size-sm);
+      color: var(--color-text-secondary);
+    }
+
+    .settings-form__field--checkbox label {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--space-xs);
+      min-height: var(--touch-target-min);
+      color: var(--color-text-primary);
+    }
+
+    .settings-form__control {
+      display: flex;
+      align-items: center;
+      gap: var(--space-sm);
+    }
+
+    .settings-form__control input[type='range'] {
+      flex: 1;
+    }
+
+    .settings-form__value {
+      min-width: 2.5em;
+      text-align: right;
+      font-variant-numeric: tabular-nums;
+    }
+
+    .settings-form__hint {
+      color: var(--color-text-secondary);
+      font-size: var(--font-size-xs);
+    }
+
+    .settings-form__error {
+      color: var(--color-error);
+      font-size: var(--font-size-xs);
+    }
+
+    .settings-form__error:empty {
+      display: none;
+    }
+
+    .settings-form [aria-invalid='true'] {
+      border-color: var(--color-error);
+    }
+  `
+}
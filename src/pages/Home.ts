@@ -63,6 +63,7 @@ function createVisualizationCard(
   }
 
   const icon = categoryIcons[metadata.category] || categoryIcons.default
+  const path = metadata.path ?? `/viz/${metadata.category}/${metadata.id}`
 
   card.innerHTML = `
     <div class="card-thumbnail">${icon}</div>
@@ -77,7 +78,7 @@ function createVisualizationCard(
     ${
       isComingSoon
         ? '<span class="badge badge-outline" style="margin-top: var(--space-sm);">Coming Soon</span>'
-        : `<a href="#/${metadata.category}" class="btn-primary" style="margin-top: var(--space-md); width: 100%;">Explore</a>`
+        : `<a href="#${path}" class="btn-primary" style="margin-top: var(--space-md); width: 100%;">Explore</a>`
     }
   `
 
@@ -85,7 +86,8 @@ function createVisualizationCard(
     card.addEventListener('click', (e) => {
       // Don't navigate if clicking the button (it has its own href)
       if ((e.target as HTMLElement).tagName !== 'A') {
-        window.location.hash = `#/${metadata.category}`
+        // Follow the button's link so the router handles it in either URL mode
+        card.querySelector('a')?.click()
       }
     })
   }
@@ -5,11 +5,197 @@
  * controls and responsive vertical layout.
  */
 
-import { SortingVisualizer, SORTING_ALGORITHMS } from '../visualizations/sorting'
-import { AnimationController } from '../visualizations/core'
-import { ControlPanel, getControlPanelStyles } from '../components/ControlPanel'
+import {
+  SortingVisualizer,
+  SORTING_ALGORITHMS,
+  INPUT_DISTRIBUTION_NAMES,
+  GENERATED_ARRAY_LIMITS,
+  DEFAULT_SORTING_CONFIG,
+  parseArrayInput,
+  getAlgorithmById,
+  getMaxArraySize,
+  encodeSortingPermalink,
+  decodeSortingPermalink,
+  SORTING_CONFIG_SCHEMA,
+  SORTING_CONFIG_FIELDS,
+} from '../visualizations/sorting'
+import {
+  AnimationController,
+  ConfigManager,
+  ConfigMigrationError,
+  ConfigValidationError,
+  DEFAULT_SPEED_PRESETS,
+} from '../visualizations/core'
+import { ControlPanel, DEFAULT_CONTROL_PANEL_CONFIG, getControlPanelStyles } from '../components/ControlPanel'
 import { MetricsDisplay, getMetricsDisplayStyles } from '../components/MetricsDisplay'
-import type { SortingAlgorithm } from '../visualizations/sorting'
+import { SettingsForm, getSettingsFormStyles } from '../components/SettingsForm'
+import { randomSeed, isValidSeed, MAX_SEED } from '../utils/random'
+import { throttleRAF } from '../utils/animation'
+import type { RouteContext, RouteView } from '../types/router'
+import type {
+  SortingAlgorithm,
+  SortingConfig,
+  SortingOptions,
+  SortingOptionField,
+  SortingOptionValue,
+  InputDistribution,
+} from '../visualizations/sorting'
+
+/** Smallest array size offered by the size slider */
+const MIN_ARRAY_SIZE = 10
+
+/** Largest array size offered by the size slider (large arrays are drawn with WebGL) */
+const MAX_ARRAY_SIZE = GENERATED_ARRAY_LIMITS.maxSize
+
+/** Number of positions on the size slider */
+const SIZE_SLIDER_STEPS = 1000
+
+/** localStorage key for saved presets */
+const PRESETS_STORAGE_KEY = 'sorting-presets'
+
+/** Config values saved in presets (the canvas size follows the viewport) */
+const PRESET_KEYS: (keyof SortingConfig)[] = [
+  'arraySize',
+  'minValue',
+  'maxValue',
+  'distribution',
+  'seed',
+  'view',
+  'coloring',
+  'palette',
+  'barGap',
+  'padding',
+  'showValues',
+  'showHeapTree',
+  'tweenFraction',
+  'swapMotion',
+  'backgroundColor',
+  'showMetrics',
+]
+
+/**
+ * Page state saved with a preset's config
+ */
+interface SortingPresetExtras {
+  /** Algorithm ID */
+  algorithm?: string
+  /** Algorithm options */
+  options?: SortingOptions
+  /** Speed preset name */
+  speed?: string
+}
+
+/**
+ * Read the page state saved with a preset, skipping values of the wrong type
+ * (presets can be imported from files)
+ */
+function readPresetExtras(extras: Record<string, unknown> = {}): SortingPresetExtras {
+  const { algorithm, options, speed } = extras
+  return {
+    algorithm: typeof algorithm === 'string' ? algorithm : undefined,
+    options:
+      typeof options === 'object' && options !== null && !Array.isArray(options)
+        ? (options as SortingOptions)
+        : undefined,
+    speed: typeof speed === 'string' ? speed : undefined,
+  }
+}
+
+/**
+ * Array size at a size slider position
+ * The slider is logarithmic so small sizes stay easy to pick; sizes above
+ * 100 are rounded to two significant digits.
+ * @param position Slider position (0 to SIZE_SLIDER_STEPS)
+ */
+function sliderToArraySize(position: number): number {
+  const size = MIN_ARRAY_SIZE * Math.pow(MAX_ARRAY_SIZE / MIN_ARRAY_SIZE, position / SIZE_SLIDER_STEPS)
+  return size > 100 ? Number(size.toPrecision(2)) : Math.round(size)
+}
+
+/**
+ * Size slider position nearest an array size
+ * @param size Array size
+ */
+function arraySizeToSlider(size: number): number {
+  return Math.round(
+    (SIZE_SLIDER_STEPS * Math.log(size / MIN_ARRAY_SIZE)) / Math.log(MAX_ARRAY_SIZE / MIN_ARRAY_SIZE)
+  )
+}
+
+/**
+ * Save text as a file download
+ * @param filename Suggested file name
+ * @param contents File contents
+ * @param type MIME type
+ */
+function downloadFile(filename: string, contents: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Create the form control for an algorithm option
+ * @param id Element ID of the control
+ * @param field Option field description
+ * @param value Current option value
+ */
+function createOptionControl(
+  id: string,
+  field: SortingOptionField,
+  value: SortingOptionValue
+): HTMLInputElement | HTMLSelectElement {
+  if (field.control === 'select') {
+    const select = document.createElement('select')
+    select.id = id
+    for (const [optionValue, name] of Object.entries(field.choices ?? {})) {
+      const option = document.createElement('option')
+      option.value = optionValue
+      option.textContent = name
+      select.appendChild(option)
+    }
+    select.value = String(value)
+    return select
+  }
+
+  const input = document.createElement('input')
+  input.id = id
+
+  if (field.control === 'checkbox') {
+    input.type = 'checkbox'
+    input.checked = value === true
+  } else if (field.control === 'number') {
+    input.type = 'number'
+    if (field.min !== undefined) input.min = field.min.toString()
+    if (field.max !== undefined) input.max = field.max.toString()
+    if (field.step !== undefined) input.step = field.step.toString()
+    input.value = String(value)
+  } else {
+    input.type = 'text'
+    input.value = String(value)
+  }
+
+  return input
+}
+
+/**
+ * Read the value of an algorithm option control, typed like its default
+ */
+function readOptionControl(
+  control: HTMLInputElement | HTMLSelectElement,
+  defaultValue: SortingOptionValue
+): SortingOptionValue {
+  if (control instanceof HTMLInputElement && control.type === 'checkbox') {
+    return control.checked
+  }
+  if (typeof defaultValue === 'number') {
+    return control.value.trim() === '' ? Number.NaN : Number(control.value)
+  }
+  return control.value
+}
 
 /**
  * Inject component styles into the document
@@ -23,6 +209,7 @@ function injectStyles(): void {
   style.textContent = `
     ${getControlPanelStyles()}
     ${getMetricsDisplayStyles()}
+    ${getSettingsFormStyles()}
 
     .sorting-page {
       display: flex;
@@ -59,6 +246,10 @@ function injectStyles(): void {
       margin: 0;
     }
 
+    .sorting-page__share-btn {
+      min-height: var(--touch-target-min);
+    }
+
     @media (min-width: 768px) {
       .sorting-page__title {
         font-size: var(--font-size-3xl);
@@ -144,10 +335,45 @@ function injectStyles(): void {
       margin: 0;
     }
 
+    .sorting-page__option--checkbox label {
+      display: inline-flex;
+      align-items: center;
+      gap: var(--space-xs);
+      cursor: pointer;
+    }
+
+    .sorting-page__option[hidden] {
+      display: none;
+    }
+
+    .sorting-page__algo-options {
+      display: contents;
+    }
+
+    .sorting-page__option-error {
+      font-size: var(--font-size-xs);
+      color: var(--color-error);
+      margin: 0;
+    }
+
+    .sorting-page__option-error:empty {
+      display: none;
+    }
+
+    .sorting-page__option-note {
+      font-size: var(--font-size-xs);
+      color: var(--color-text-secondary);
+      margin: 0;
+    }
+
+    .sorting-page__option-note:empty {
+      display: none;
+    }
+
     .sorting-page__option-value {
       font-size: var(--font-size-sm);
       color: var(--color-text-secondary);
-      min-width: 40px;
+      min-width: 48px;
       text-align: center;
       font-variant-numeric: tabular-nums;
     }
@@ -158,6 +384,29 @@ function injectStyles(): void {
       gap: var(--space-sm);
     }
 
+    .sorting-page__option--wide {
+      flex-basis: 100%;
+    }
+
+    .sorting-page__option-row input[type="text"] {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .sorting-page__preset-actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: var(--space-sm);
+    }
+
+    .sorting-page__preset-actions button {
+      min-height: var(--touch-target-min);
+    }
+
+    .sorting-page__preset-actions button[hidden] {
+      display: none;
+    }
+
     .sorting-page__generate-btn {
       width: 100%;
       min-height: var(--touch-target-min);
@@ -169,6 +418,14 @@ function injectStyles(): void {
       }
     }
 
+    .sorting-page__settings summary {
+      cursor: pointer;
+      min-height: var(--touch-target-min);
+      display: flex;
+      align-items: center;
+      font-weight: 600;
+    }
+
     .sorting-page__info {
       padding: var(--space-md);
       background: var(--color-surface);
@@ -235,8 +492,10 @@ function injectStyles(): void {
 
 /**
  * Create the Sorting Page
+ * The visualizer is created on mount and released on unmount.
+ * @param context Matched route; its query restores a shared session (see encodeSortingPermalink)
  */
-export function SortingPage(): HTMLElement {
+export function SortingPage(context: RouteContext): RouteView {
   injectStyles()
 
   // Create main container
@@ -248,8 +507,26 @@ export function SortingPage(): HTMLElement {
   let controller: AnimationController | null = null
   let controlPanel: ControlPanel | null = null
   let metricsDisplay: MetricsDisplay | null = null
-  let currentAlgorithm: SortingAlgorithm = SORTING_ALGORITHMS[0]!
-  let arraySize = 50
+  let settingsForm: SettingsForm<SortingConfig> | null = null
+  let configManager: ConfigManager<SortingConfig> | null = null
+  let handleResize: (() => void) | null = null
+  // Set once the page is unmounted
+  let disposed = false
+  // Restore session state from the link, if any
+  const linkState = decodeSortingPermalink(context.query)
+
+  let currentAlgorithm: SortingAlgorithm =
+    getAlgorithmById(linkState.algorithm ?? '') ?? SORTING_ALGORITHMS[0]!
+  let arraySize = Math.min(
+    getMaxArraySize(currentAlgorithm, linkState.options),
+    Math.max(MIN_ARRAY_SIZE, linkState.size ?? 50)
+  )
+  let seed = linkState.seed ?? randomSeed()
+  const linkedSpeedIndex = DEFAULT_SPEED_PRESETS.findIndex(
+    (p) => p.name.toLowerCase() === linkState.speed?.toLowerCase()
+  )
+  const speedIndex =
+    linkedSpeedIndex === -1 ? DEFAULT_CONTROL_PANEL_CONFIG.initialSpeedIndex : linkedSpeedIndex
 
   // Create header
   const header = document.createElement('div')
@@ -260,12 +537,71 @@ export function SortingPage(): HTMLElement {
     </a>
     <h1 class="sorting-page__title">Sorting Visualizer</h1>
   `
+
+  const shareBtn = document.createElement('button')
+  shareBtn.className = 'btn-secondary sorting-page__share-btn'
+  shareBtn.textContent = 'Copy link'
+  shareBtn.type = 'button'
+  header.appendChild(shareBtn)
+
   container.appendChild(header)
 
   // Create options panel
   const options = document.createElement('div')
   options.className = 'sorting-page__options'
 
+  // Preset picker
+  const presetOption = document.createElement('div')
+  presetOption.className = 'sorting-page__option sorting-page__option--wide'
+  presetOption.innerHTML = `<label for="preset-select">Preset</label>`
+
+  const presetRow = document.createElement('div')
+  presetRow.className = 'sorting-page__option-row'
+
+  const presetSelect = document.createElement('select')
+  presetSelect.id = 'preset-select'
+  presetSelect.setAttribute('aria-describedby', 'preset-error')
+  presetSelect.style.flex = '1'
+
+  const presetActions = document.createElement('div')
+  presetActions.className = 'sorting-page__preset-actions'
+
+  const createPresetButton = (text: string, title: string): HTMLButtonElement => {
+    const button = document.createElement('button')
+    button.className = 'btn-secondary'
+    button.type = 'button'
+    button.textContent = text
+    button.title = title
+    presetActions.appendChild(button)
+    return button
+  }
+
+  const presetSaveBtn = createPresetButton('Save', 'Save the current settings as a preset')
+  const presetRenameBtn = createPresetButton('Rename', 'Rename the selected preset')
+  const presetDeleteBtn = createPresetButton('Delete', 'Delete the selected preset')
+  const presetExportBtn = createPresetButton('Export', 'Download all presets as a JSON file')
+  const presetImportBtn = createPresetButton('Import', 'Add presets from a JSON file')
+  const presetResetBtn = createPresetButton('Reset', 'Delete all presets, including saved presets that could not be loaded')
+  // Only offered when the saved presets could not be loaded
+  presetResetBtn.hidden = true
+
+  const presetFileInput = document.createElement('input')
+  presetFileInput.type = 'file'
+  presetFileInput.accept = 'application/json,.json'
+  presetFileInput.hidden = true
+  presetActions.appendChild(presetFileInput)
+
+  const presetError = document.createElement('p')
+  presetError.className = 'sorting-page__option-error'
+  presetError.id = 'preset-error'
+  presetError.setAttribute('role', 'alert')
+
+  presetRow.appendChild(presetSelect)
+  presetRow.appendChild(presetActions)
+  presetOption.appendChild(presetRow)
+  presetOption.appendChild(presetError)
+  options.appendChild(presetOption)
+
   // Algorithm selector
   const algoOption = document.createElement('div')
   algoOption.className = 'sorting-page__option'
@@ -279,6 +615,7 @@ export function SortingPage(): HTMLElement {
     option.textContent = algo.info.name
     algoSelect.appendChild(option)
   })
+  algoSelect.value = currentAlgorithm.info.id
   algoOption.appendChild(algoSelect)
   options.appendChild(algoOption)
 
@@ -293,20 +630,72 @@ export function SortingPage(): HTMLElement {
   const sizeSlider = document.createElement('input')
   sizeSlider.type = 'range'
   sizeSlider.id = 'size-slider'
-  sizeSlider.min = '10'
-  sizeSlider.max = '200'
-  sizeSlider.value = arraySize.toString()
+  sizeSlider.min = '0'
+  sizeSlider.max = SIZE_SLIDER_STEPS.toString()
+  sizeSlider.value = arraySizeToSlider(arraySize).toString()
   sizeSlider.style.flex = '1'
+  sizeSlider.setAttribute('aria-describedby', 'size-note')
 
   const sizeValue = document.createElement('span')
   sizeValue.className = 'sorting-page__option-value'
   sizeValue.textContent = arraySize.toString()
 
+  const sizeNote = document.createElement('p')
+  sizeNote.className = 'sorting-page__option-note'
+  sizeNote.id = 'size-note'
+
   sizeRow.appendChild(sizeSlider)
   sizeRow.appendChild(sizeValue)
   sizeOption.appendChild(sizeRow)
+  sizeOption.appendChild(sizeNote)
   options.appendChild(sizeOption)
 
+  // Input distribution selector
+  const distributionOption = document.createElement('div')
+  distributionOption.className = 'sorting-page__option'
+  distributionOption.innerHTML = `<label for="distribution-select">Input</label>`
+
+  const distributionSelect = document.createElement('select')
+  distributionSelect.id = 'distribution-select'
+  for (const [value, name] of Object.entries(INPUT_DISTRIBUTION_NAMES)) {
+    const option = document.createElement('option')
+    option.value = value
+    option.textContent = name
+    distributionSelect.appendChild(option)
+  }
+  distributionSelect.value = linkState.distribution ?? DEFAULT_SORTING_CONFIG.distribution
+  distributionOption.appendChild(distributionSelect)
+  options.appendChild(distributionOption)
+
+
+  // Algorithm-specific options (rendered from the algorithm's options schema)
+  const algoOptions = document.createElement('div')
+  algoOptions.className = 'sorting-page__algo-options'
+  options.appendChild(algoOptions)
+
+  // Seed for array generation
+  const seedOption = document.createElement('div')
+  seedOption.className = 'sorting-page__option'
+  seedOption.innerHTML = `<label for="seed-input">Seed</label>`
+
+  const seedInput = document.createElement('input')
+  seedInput.type = 'number'
+  seedInput.id = 'seed-input'
+  seedInput.min = '0'
+  seedInput.max = MAX_SEED.toString()
+  seedInput.step = '1'
+  seedInput.value = seed.toString()
+  seedInput.setAttribute('aria-describedby', 'seed-error')
+
+  const seedError = document.createElement('p')
+  seedError.className = 'sorting-page__option-error'
+  seedError.id = 'seed-error'
+  seedError.setAttribute('role', 'alert')
+
+  seedOption.appendChild(seedInput)
+  seedOption.appendChild(seedError)
+  options.appendChild(seedOption)
+
   // Generate button
   const generateBtn = document.createElement('button')
   generateBtn.className = 'btn-secondary sorting-page__generate-btn'
@@ -314,6 +703,37 @@ export function SortingPage(): HTMLElement {
   generateBtn.type = 'button'
   options.appendChild(generateBtn)
 
+  // Custom array entry
+  const customOption = document.createElement('div')
+  customOption.className = 'sorting-page__option sorting-page__option--wide'
+  customOption.innerHTML = `<label for="custom-array-input">Custom Array</label>`
+
+  const customRow = document.createElement('div')
+  customRow.className = 'sorting-page__option-row'
+
+  const customInput = document.createElement('input')
+  customInput.type = 'text'
+  customInput.id = 'custom-array-input'
+  customInput.placeholder = 'e.g. 5, 3, 8, 1, 9, 2'
+  customInput.setAttribute('aria-describedby', 'custom-array-error')
+  customInput.value = linkState.array?.join(', ') ?? ''
+
+  const customLoadBtn = document.createElement('button')
+  customLoadBtn.className = 'btn-secondary'
+  customLoadBtn.textContent = 'Load'
+  customLoadBtn.type = 'button'
+
+  const customError = document.createElement('p')
+  customError.className = 'sorting-page__option-error'
+  customError.id = 'custom-array-error'
+  customError.setAttribute('role', 'alert')
+
+  customRow.appendChild(customInput)
+  customRow.appendChild(customLoadBtn)
+  customOption.appendChild(customRow)
+  customOption.appendChild(customError)
+  options.appendChild(customOption)
+
   container.appendChild(options)
 
   // Create canvas container
@@ -329,6 +749,14 @@ export function SortingPage(): HTMLElement {
   const metricsContainer = document.createElement('div')
   container.appendChild(metricsContainer)
 
+  // Create display settings section (generated from the visualizer's config fields)
+  const settingsSection = document.createElement('details')
+  settingsSection.className = 'sorting-page__settings'
+  settingsSection.innerHTML = '<summary>Display settings</summary>'
+  const settingsContainer = document.createElement('div')
+  settingsSection.appendChild(settingsContainer)
+  container.appendChild(settingsSection)
+
   // Create algorithm info section
   const infoSection = document.createElement('div')
   infoSection.className = 'sorting-page__info'
@@ -339,6 +767,8 @@ export function SortingPage(): HTMLElement {
    */
   function updateAlgorithmInfo(): void {
     const info = currentAlgorithm.info
+    // The heap tree setting only applies to heap-based algorithms
+    settingsForm?.setFieldVisible('showHeapTree', !!info.usesHeap)
     infoSection.innerHTML = `
       <h3>${info.name}</h3>
       <p>${info.description}</p>
@@ -363,6 +793,37 @@ export function SortingPage(): HTMLElement {
     `
   }
 
+  /**
+   * Limit the size slider to the largest array an algorithm runs on,
+   * shrinking the array if it is larger
+   * Call before switching the visualizer's algorithm or options, which it
+   * refuses while the array is too large for them.
+   * @param algorithm Algorithm about to be used
+   * @param options Its options
+   * @throws ConfigValidationError if an option is invalid
+   */
+  function updateSizeLimit(
+    algorithm: SortingAlgorithm = currentAlgorithm,
+    options: SortingOptions | undefined = visualizer?.getAlgorithmOptions()
+  ): void {
+    const maxSize = getMaxArraySize(algorithm, options)
+    sizeSlider.max = arraySizeToSlider(maxSize).toString()
+    sizeNote.textContent = maxSize < MAX_ARRAY_SIZE
+      ? `${algorithm.info.name} runs on arrays of up to ${maxSize} elements, since its steps are generated before playback`
+      : ''
+
+    if (arraySize <= maxSize) return
+    arraySize = maxSize
+    sizeSlider.value = arraySizeToSlider(arraySize).toString()
+    sizeValue.textContent = arraySize.toString()
+    configManager?.set({ arraySize })
+    // Custom arrays are always small enough
+    if (visualizer && !visualizer.getCustomArray()) {
+      visualizer.generateRandomArray()
+      metricsDisplay?.reset()
+    }
+  }
+
   /**
    * Initialize the visualizer and controls
    */
@@ -371,18 +832,24 @@ export function SortingPage(): HTMLElement {
     const isMobile = window.innerWidth < 768
     const canvasHeight = isMobile ? 250 : 400
 
-    // Create visualizer
+    // Create visualizer, setting the algorithm before the array size it limits
     visualizer = new SortingVisualizer({
-      arraySize,
+      seed,
+      distribution: distributionSelect.value as InputDistribution,
       height: canvasHeight,
     })
+    visualizer.setAlgorithm(currentAlgorithm, linkState.options)
+    visualizer.updateConfig({ arraySize })
 
     visualizer.setup(canvasContainer)
-    visualizer.setAlgorithm(currentAlgorithm)
+    if (linkState.array) {
+      visualizer.setArray(linkState.array)
+    }
 
     // Create animation controller
     controller = new AnimationController()
     controller.attach(visualizer)
+    controller.setSpeed(DEFAULT_SPEED_PRESETS[speedIndex]!.delayMs)
 
     // Create control panel
     controlPanel = new ControlPanel(controlContainer, {
@@ -394,26 +861,82 @@ export function SortingPage(): HTMLElement {
       },
       onPause: () => controller?.pause(),
       onStep: () => visualizer?.step(),
+      onStepBack: () => controller?.stepBack(),
+      onSeek: (stepIndex) => controller?.seek(stepIndex),
       onReset: () => {
         visualizer?.reset()
         metricsDisplay?.reset()
       },
-      onSpeedChange: (preset) => controller?.setSpeed(preset.delayMs),
+      onSpeedChange: (preset) => {
+        controller?.setSpeed(preset.delayMs)
+        updatePermalink()
+      },
+    }, {
+      initialSpeedIndex: speedIndex,
     })
 
     // Create metrics display
     metricsDisplay = new MetricsDisplay(metricsContainer)
 
+    // Create config manager for display settings and presets
+    // The visualizer's rules include its algorithm's array size limit
+    configManager = new ConfigManager(visualizer.getConfig(), SORTING_CONFIG_SCHEMA, visualizer.getCrossFieldRules())
+    configManager.on('presetsChange', renderPresetOptions)
+    configManager.on('migrationError', () => {
+      setPresetError("Saved presets are from a newer version and could not be loaded. Presets won't be saved until you reset them.")
+      presetResetBtn.hidden = false
+    })
+    configManager.enablePresetPersistence(PRESETS_STORAGE_KEY)
+    renderPresetOptions()
+
+    // Create display settings
+    settingsForm = new SettingsForm(settingsContainer, configManager, SORTING_CONFIG_FIELDS, {
+      visualization: visualizer,
+      idPrefix: 'sorting-settings',
+    })
+
+    /**
+     * Sync the timeline scrubber with the visualizer position
+     */
+    const updateProgress = (): void => {
+      if (visualizer) {
+        controlPanel?.setProgress(visualizer.getCurrentStepIndex(), visualizer.getTotalSteps())
+      }
+    }
+
     // Listen to state changes
     visualizer.on('stateChange', (state) => {
       controlPanel?.setState(state)
+      updateProgress()
+      updatePermalink()
     })
 
-    // Listen to step completion for metrics updates
-    visualizer.on('stepComplete', () => {
+    // Listen to step completion for metrics updates; fast playback runs
+    // many steps per frame, so the DOM is updated at most once a frame
+    visualizer.on('stepComplete', throttleRAF(() => {
       if (visualizer) {
         metricsDisplay?.update(visualizer.getMetrics())
       }
+      updateProgress()
+
+      // Manual steps; during playback the link is updated when it pauses
+      if (visualizer?.getState() !== 'playing') {
+        updatePermalink()
+      }
+    }))
+
+    // Listen to timeline seeks
+    visualizer.on('seek', () => {
+      if (visualizer) {
+        metricsDisplay?.update(visualizer.getMetrics())
+      }
+      updateProgress()
+      updatePermalink()
+    })
+
+    visualizer.on('reset', () => {
+      updateProgress()
+      updatePermalink()
     })
 
     // Listen to completion
@@ -421,22 +944,223 @@ export function SortingPage(): HTMLElement {
       metricsDisplay?.update(metrics)
     })
 
-    // Update initial algorithm info
+    // Update initial algorithm info and options
     updateAlgorithmInfo()
+    renderAlgorithmOptions()
+    updateSizeLimit()
+
+    // Jump to the linked timeline position
+    if (linkState.step) {
+      controller.seek(linkState.step)
+    }
+    updatePermalink()
 
     // Handle window resize
-    const handleResize = (): void => {
+    handleResize = (): void => {
       const newIsMobile = window.innerWidth < 768
       const newHeight = newIsMobile ? 250 : 400
-      if (visualizer) {
-        visualizer.updateConfig({ height: newHeight })
-      }
+      configManager?.set({ height: newHeight })
     }
 
     window.addEventListener('resize', handleResize)
+  }
+
+  /**
+   * Write the current session state into the URL query
+   * (replaces the history entry so settings changes don't pile up)
+   */
+  function updatePermalink(): void {
+    // Stop once the page has been navigated away from
+    if (disposed || !visualizer || !controlPanel || !container.isConnected) return
+
+    const query = encodeSortingPermalink({
+      algorithm: currentAlgorithm.info.id,
+      options: visualizer.getAlgorithmOptions(),
+      array: visualizer.getCustomArray(),
+      seed,
+      size: arraySize,
+      distribution: distributionSelect.value as InputDistribution,
+      speed: controlPanel.getCurrentSpeedPreset().name,
+      step: visualizer.getCurrentStepIndex(),
+    })
 
-    // Store resize handler for cleanup
-    ;(container as HTMLElement & { _resizeHandler?: () => void })._resizeHandler = handleResize
+    context.replaceQuery(query)
+  }
+
+  /**
+   * Fill the preset picker from the saved presets
+   */
+  function renderPresetOptions(): void {
+    const selected = presetSelect.value
+    const presets = configManager?.getPresets() ?? []
+
+    presetSelect.innerHTML = ''
+    const placeholder = document.createElement('option')
+    placeholder.value = ''
+    placeholder.textContent = presets.length > 0 ? 'Choose a preset…' : 'No saved presets'
+    presetSelect.appendChild(placeholder)
+
+    for (const preset of presets) {
+      const option = document.createElement('option')
+      option.value = preset.name
+      option.textContent = preset.name
+      presetSelect.appendChild(option)
+    }
+
+    presetSelect.value = presets.some((preset) => preset.name === selected) ? selected : ''
+    updatePresetActions()
+  }
+
+  /**
+   * Enable the preset buttons that apply to the current selection
+   */
+  function updatePresetActions(): void {
+    const hasSelection = presetSelect.value !== ''
+    presetRenameBtn.disabled = !hasSelection
+    presetDeleteBtn.disabled = !hasSelection
+    presetExportBtn.disabled = presetSelect.options.length <= 1
+  }
+
+  /**
+   * Show a preset error, or clear it
+   */
+  function setPresetError(message: string | null): void {
+    presetError.textContent = message ?? ''
+    if (message) {
+      presetSelect.setAttribute('aria-invalid', 'true')
+    } else {
+      presetSelect.removeAttribute('aria-invalid')
+    }
+  }
+
+  /**
+   * Apply a preset's config, algorithm and speed, and generate its array
+   * @param name Preset name
+   */
+  function applyPreset(name: string): void {
+    if (!visualizer || !configManager) return
+
+    const preset = configManager.getPreset(name)
+    if (!preset) {
+      setPresetError(`No preset named "${name}"`)
+      return
+    }
+
+    controller?.pause()
+    setPresetError(null)
+
+    // Switch the algorithm first, since it limits the preset's array size
+    const extras = readPresetExtras(preset.extras)
+    const algo = getAlgorithmById(extras.algorithm ?? '')
+    if (algo) {
+      try {
+        updateSizeLimit(algo, extras.options)
+        visualizer.setAlgorithm(algo, extras.options)
+      } catch (err) {
+        if (!(err instanceof ConfigValidationError)) throw err
+        // Fall back to the default options
+        updateSizeLimit(algo, {})
+        visualizer.setAlgorithm(algo)
+        setPresetError(`Ignored the preset's algorithm options: ${err.reason}`)
+      }
+      currentAlgorithm = algo
+      algoSelect.value = algo.info.id
+    }
+
+    try {
+      configManager.applyPreset(name)
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError)) throw err
+      setPresetError(err.reason)
+    }
+
+    // Sync the page controls with the preset's array settings
+    const config = configManager.get()
+    arraySize = config.arraySize
+    sizeSlider.value = arraySizeToSlider(arraySize).toString()
+    sizeValue.textContent = arraySize.toString()
+    seed = config.seed
+    seedInput.value = seed.toString()
+    seedError.textContent = ''
+    seedInput.removeAttribute('aria-invalid')
+    distributionSelect.value = config.distribution
+    customInput.value = ''
+    customError.textContent = ''
+    customInput.removeAttribute('aria-invalid')
+
+    const presetSpeedIndex = DEFAULT_SPEED_PRESETS.findIndex((p) => p.name === extras.speed)
+    if (presetSpeedIndex !== -1) {
+      controlPanel?.setSpeed(presetSpeedIndex)
+      controller?.setSpeed(DEFAULT_SPEED_PRESETS[presetSpeedIndex]!.delayMs)
+    }
+
+    visualizer.generateRandomArray()
+    metricsDisplay?.reset()
+    updateAlgorithmInfo()
+    renderAlgorithmOptions()
+    updatePermalink()
+  }
+
+  /**
+   * Render form controls for the current algorithm's options
+   */
+  function renderAlgorithmOptions(): void {
+    algoOptions.innerHTML = ''
+
+    const schema = currentAlgorithm.info.options
+    if (!schema) return
+
+    const values = visualizer?.getAlgorithmOptions() ?? schema.defaults
+
+    for (const [key, field] of Object.entries(schema.fields)) {
+      const defaultValue = schema.defaults[key]!
+      const id = `algo-option-${key}`
+
+      const option = document.createElement('div')
+      option.className = 'sorting-page__option'
+
+      const control = createOptionControl(id, field, values[key] ?? defaultValue)
+      const label = document.createElement('label')
+
+      if (field.control === 'checkbox') {
+        option.classList.add('sorting-page__option--checkbox')
+        label.appendChild(control)
+        label.append(` ${field.label}`)
+      } else {
+        label.htmlFor = id
+        label.textContent = field.label
+      }
+      if (field.hint) label.title = field.hint
+
+      const error = document.createElement('p')
+      error.className = 'sorting-page__option-error'
+      error.id = `${id}-error`
+      error.setAttribute('role', 'alert')
+      control.setAttribute('aria-describedby', error.id)
+
+      option.appendChild(label)
+      if (field.control !== 'checkbox') option.appendChild(control)
+      option.appendChild(error)
+      algoOptions.appendChild(option)
+
+      control.addEventListener('change', () => {
+        try {
+          const options = { [key]: readOptionControl(control, defaultValue) }
+          updateSizeLimit(currentAlgorithm, { ...visualizer?.getAlgorithmOptions(), ...options })
+          visualizer?.setAlgorithmOptions(options)
+        } catch (err) {
+          if (!(err instanceof ConfigValidationError)) throw err
+          error.textContent = err.reason
+          control.setAttribute('aria-invalid', 'true')
+          return
+        }
+
+        error.textContent = ''
+        control.removeAttribute('aria-invalid')
+        visualizer?.reset()
+        metricsDisplay?.reset()
+      })
+    }
   }
 
   /**
@@ -445,11 +1169,13 @@ export function SortingPage(): HTMLElement {
   algoSelect.addEventListener('change', () => {
     const algo = SORTING_ALGORITHMS.find((a) => a.info.id === algoSelect.value)
     if (algo) {
+      updateSizeLimit(algo, {})
       currentAlgorithm = algo
       visualizer?.setAlgorithm(algo)
       visualizer?.reset()
       metricsDisplay?.reset()
       updateAlgorithmInfo()
+      renderAlgorithmOptions()
     }
   })
 
@@ -457,14 +1183,14 @@ export function SortingPage(): HTMLElement {
    * Handle array size change
    */
   sizeSlider.addEventListener('input', () => {
-    arraySize = parseInt(sizeSlider.value, 10)
+    arraySize = sliderToArraySize(parseInt(sizeSlider.value, 10))
     sizeValue.textContent = arraySize.toString()
   })
 
   sizeSlider.addEventListener('change', () => {
     if (visualizer) {
-      visualizer.updateConfig({ arraySize })
-      visualizer.reset()
+      configManager?.set({ arraySize })
+      visualizer.generateRandomArray()
       metricsDisplay?.reset()
     }
   })
@@ -473,30 +1199,236 @@ export function SortingPage(): HTMLElement {
    * Handle generate button
    */
   generateBtn.addEventListener('click', () => {
+    seed = randomSeed()
+    seedInput.value = seed.toString()
+    seedError.textContent = ''
+    seedInput.removeAttribute('aria-invalid')
+    configManager?.set({ seed })
     visualizer?.generateRandomArray()
     metricsDisplay?.reset()
   })
 
-  // Initialize after DOM is ready
-  requestAnimationFrame(() => {
-    initialize()
+  /**
+   * Handle seed change
+   */
+  seedInput.addEventListener('change', () => {
+    const value = seedInput.value.trim() === '' ? Number.NaN : Number(seedInput.value)
+    if (!isValidSeed(value)) {
+      seedError.textContent = `Seed must be a whole number from 0 to ${MAX_SEED}`
+      seedInput.setAttribute('aria-invalid', 'true')
+      return
+    }
+
+    seed = value
+    seedError.textContent = ''
+    seedInput.removeAttribute('aria-invalid')
+    configManager?.set({ seed })
+    visualizer?.generateRandomArray()
+    metricsDisplay?.reset()
   })
 
-  // Cleanup on navigation
-  const cleanup = (): void => {
-    const resizeHandler = (container as HTMLElement & { _resizeHandler?: () => void })
-      ._resizeHandler
-    if (resizeHandler) {
-      window.removeEventListener('resize', resizeHandler)
+  /**
+   * Handle input distribution change
+   */
+  distributionSelect.addEventListener('change', () => {
+    if (visualizer) {
+      configManager?.set({ distribution: distributionSelect.value as InputDistribution })
+      visualizer.generateRandomArray()
+      metricsDisplay?.reset()
     }
-    visualizer?.destroy()
+  })
+
+  /**
+   * Validate and load the custom array
+   */
+  const loadCustomArray = (): void => {
+    let values: number[]
+    try {
+      values = parseArrayInput(customInput.value)
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError)) throw err
+      customError.textContent = err.reason
+      customInput.setAttribute('aria-invalid', 'true')
+      return
+    }
+
+    customError.textContent = ''
+    customInput.removeAttribute('aria-invalid')
+    visualizer?.setArray(values)
+    metricsDisplay?.reset()
+  }
+
+  customLoadBtn.addEventListener('click', loadCustomArray)
+
+  /**
+   * Handle preset selection
+   */
+  presetSelect.addEventListener('change', () => {
+    updatePresetActions()
+    if (presetSelect.value) {
+      applyPreset(presetSelect.value)
+    }
+  })
+
+  /**
+   * Save the current settings, algorithm and speed as a preset
+   */
+  presetSaveBtn.addEventListener('click', () => {
+    if (!visualizer || !configManager || !controlPanel) return
+
+    const name = window.prompt('Preset name:', presetSelect.value)?.trim()
+    if (!name) return
+    if (configManager.getPreset(name) && !window.confirm(`Replace the preset "${name}"?`)) return
+
+    const extras: SortingPresetExtras = {
+      algorithm: currentAlgorithm.info.id,
+      options: visualizer.getAlgorithmOptions(),
+      speed: controlPanel.getCurrentSpeedPreset().name,
+    }
+    configManager.savePreset(name, { keys: PRESET_KEYS, extras: { ...extras } })
+    presetSelect.value = name
+    updatePresetActions()
+    setPresetError(null)
+  })
+
+  /**
+   * Rename the selected preset
+   */
+  presetRenameBtn.addEventListener('click', () => {
+    const name = presetSelect.value
+    if (!configManager || !name) return
+
+    const newName = window.prompt('New preset name:', name)
+    if (newName === null) return
+
+    try {
+      configManager.renamePreset(name, newName)
+    } catch (err) {
+      if (!(err instanceof ConfigValidationError)) throw err
+      setPresetError(err.reason)
+      return
+    }
+    presetSelect.value = newName.trim()
+    updatePresetActions()
+    setPresetError(null)
+  })
+
+  /**
+   * Delete the selected preset
+   */
+  presetDeleteBtn.addEventListener('click', () => {
+    const name = presetSelect.value
+    if (!configManager || !name) return
+    if (!window.confirm(`Delete the preset "${name}"?`)) return
+
+    configManager.deletePreset(name)
+    setPresetError(null)
+  })
+
+  /**
+   * Delete all presets, replacing saved presets that could not be loaded
+   */
+  presetResetBtn.addEventListener('click', () => {
+    if (!configManager) return
+    if (!window.confirm('Delete all presets, including the saved presets that could not be loaded?')) return
+
+    configManager.clearPresets()
+    presetResetBtn.hidden = true
+    setPresetError(null)
+  })
+
+  /**
+   * Download all presets
+   */
+  presetExportBtn.addEventListener('click', () => {
+    if (configManager) {
+      downloadFile('sorting-presets.json', configManager.exportPresets(), 'application/json')
+    }
+  })
+
+  /**
+   * Add presets from a file
+   */
+  presetImportBtn.addEventListener('click', () => presetFileInput.click())
+
+  presetFileInput.addEventListener('change', () => {
+    const file = presetFileInput.files?.[0]
+    presetFileInput.value = ''
+    if (!file) return
+
+    file.text().then((json) => {
+      if (!configManager) return
+      try {
+        const names = configManager.importPresets(json)
+        setPresetError(names.length > 0 ? null : 'The file has no presets')
+      } catch (err) {
+        if (!(err instanceof ConfigValidationError || err instanceof ConfigMigrationError)) throw err
+        setPresetError(`Could not import presets: ${err.reason}`)
+      }
+    }, () => {
+      setPresetError('Could not read the file')
+    })
+  })
+
+  /**
+   * Copy a link to the current session
+   */
+  shareBtn.addEventListener('click', () => {
+    updatePermalink()
+    const url = window.location.href
+
+    const showCopied = (): void => {
+      shareBtn.textContent = 'Link copied!'
+      setTimeout(() => {
+        shareBtn.textContent = 'Copy link'
+      }, 2000)
+    }
+
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(url).then(showCopied, () => {
+        window.prompt('Copy this link:', url)
+      })
+    } else {
+      window.prompt('Copy this link:', url)
+    }
+  })
+  customInput.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      loadCustomArray()
+    }
+  })
+
+  /**
+   * Release the visualizer, playback loop and listeners
+   */
+  function destroy(): void {
+    // Tearing down the visualizer emits events; keep them out of the URL
+    disposed = true
+    if (handleResize) {
+      window.removeEventListener('resize', handleResize)
+      handleResize = null
+    }
+    // Stop the playback loop before the visualization goes away
     controller?.destroy()
+    visualizer?.destroy()
     controlPanel?.destroy()
     metricsDisplay?.destroy()
+    settingsForm?.destroy()
+    controller = null
+    visualizer = null
+    controlPanel = null
+    metricsDisplay = null
+    settingsForm = null
+    configManager = null
   }
 
-  // Store cleanup function for router to call
-  ;(container as HTMLElement & { cleanup?: () => void }).cleanup = cleanup
-
-  return container
+  return {
+    element: container,
+    mount: initialize,
+    unmount: destroy,
+    // Ask before throwing away a running animation
+    canLeave: () =>
+      !controller?.isPlaying() || window.confirm('The sort is still playing. Leave this page?'),
+  }
 }
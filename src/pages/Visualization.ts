@@ -0,0 +1,286 @@
+/**
+ * Visualization Page - generic page for any registered visualization
+ *
+ * Served at /viz/:category/:id. Builds the canvas, playback controls,
+ * metrics and settings for whatever the registry holds under that id, so a
+ * new visualization only needs to register itself to get a working page.
+ */
+
+import {
+  VisualizationRegistry,
+  AnimationController,
+  DEFAULT_SPEED_PRESETS,
+} from '../visualizations/core'
+import type { Visualization } from '../visualizations/core'
+import { ControlPanel, DEFAULT_CONTROL_PANEL_CONFIG, getControlPanelStyles } from '../components/ControlPanel'
+import { MetricsDisplay, getMetricsDisplayStyles } from '../components/MetricsDisplay'
+import { SettingsForm, createVisualizationSettings, getSettingsFormStyles } from '../components/SettingsForm'
+import { throttleRAF } from '../utils/animation'
+import type { RouteContext, RouteView } from '../types/router'
+
+/**
+ * Inject component styles into the document
+ */
+function injectStyles(): void {
+  const styleId = 'visualization-page-styles'
+  if (document.getElementById(styleId)) return
+
+  const style = document.createElement('style')
+  style.id = styleId
+  style.textContent = `
+    ${getControlPanelStyles()}
+    ${getMetricsDisplayStyles()}
+    ${getSettingsFormStyles()}
+
+    .viz-page {
+      display: flex;
+      flex-direction: column;
+      gap: var(--space-md);
+      padding: var(--space-md);
+      max-width: var(--max-width-xl);
+      margin: 0 auto;
+      width: 100%;
+    }
+
+    @media (min-width: 768px) {
+      .viz-page {
+        gap: var(--space-lg);
+        padding: var(--space-lg);
+      }
+    }
+
+    .viz-page__header {
+      display: flex;
+      flex-direction: column;
+      gap: var(--space-sm);
+    }
+
+    .viz-page__title {
+      font-size: var(--font-size-2xl);
+      margin: 0;
+    }
+
+    @media (min-width: 768px) {
+      .viz-page__title {
+        font-size: var(--font-size-3xl);
+      }
+    }
+
+    .viz-page__description {
+      margin: 0;
+      color: var(--color-text-secondary);
+    }
+
+    .viz-page__back {
+      color: var(--color-text-secondary);
+      text-decoration: none;
+      font-size: var(--font-size-sm);
+      display: inline-flex;
+      align-items: center;
+      gap: var(--space-xs);
+    }
+
+    .viz-page__back:hover {
+      color: var(--color-primary);
+    }
+
+    .viz-page__canvas-container {
+      background: var(--color-canvas-bg);
+      border-radius: var(--radius-md);
+      border: 1px solid var(--color-border);
+      overflow: hidden;
+      min-height: 250px;
+      width: 100%;
+    }
+
+    @media (min-width: 768px) {
+      .viz-page__canvas-container {
+        min-height: 400px;
+      }
+    }
+  `
+  document.head.appendChild(style)
+}
+
+/**
+ * Create the message shown for an unknown visualization
+ * @param id Requested visualization ID
+ */
+function createNotFound(id: string): HTMLElement {
+  const container = document.createElement('div')
+  container.className = 'section'
+  container.style.flex = '1'
+  container.innerHTML = `
+    <div class="center-content" style="min-height: 60vh;">
+      <div class="stack stack-lg" style="text-align: center;">
+        <h1 style="margin: 0;">Visualization not found</h1>
+        <p style="color: var(--color-text-secondary); margin: 0;"></p>
+        <a href="#/" class="btn-primary btn-lg">Go Home</a>
+      </div>
+    </div>
+  `
+  container.querySelector('p')!.textContent = `There is no visualization called "${id}".`
+  return container
+}
+
+/**
+ * Canvas height for the current viewport
+ */
+function getCanvasHeight(): number {
+  return window.innerWidth < 768 ? 250 : 400
+}
+
+/**
+ * Create the page for the visualization named by the route's :category and :id
+ * Lazily registered visualizations are loaded before the page is built.
+ * @param context Matched route
+ */
+export async function VisualizationPage(context: RouteContext): Promise<HTMLElement | RouteView> {
+  const { category = '', id = '' } = context.params
+
+  const registration = VisualizationRegistry.get(id)
+  if (!registration || registration.metadata.category !== category) {
+    return createNotFound(id)
+  }
+
+  const factory = await VisualizationRegistry.load(id)
+  const { metadata } = registration
+
+  injectStyles()
+
+  // Create main container
+  const container = document.createElement('div')
+  container.className = 'viz-page'
+
+  // State
+  let visualization: Visualization | null = null
+  let controller: AnimationController | null = null
+  let controlPanel: ControlPanel | null = null
+  let metricsDisplay: MetricsDisplay | null = null
+  let settingsForm: SettingsForm | null = null
+  let handleResize: (() => void) | null = null
+
+  // Create header
+  const header = document.createElement('div')
+  header.className = 'viz-page__header'
+  header.innerHTML = `
+    <a href="#/" class="viz-page__back">
+      <span aria-hidden="true">←</span> Back to Home
+    </a>
+    <h1 class="viz-page__title"></h1>
+    <p class="viz-page__description"></p>
+  `
+  header.querySelector('h1')!.textContent = metadata.name
+  header.querySelector('p')!.textContent = metadata.description
+  container.appendChild(header)
+
+  // Create canvas container
+  const canvasContainer = document.createElement('div')
+  canvasContainer.className = 'viz-page__canvas-container'
+  container.appendChild(canvasContainer)
+
+  // Create control panel container
+  const controlContainer = document.createElement('div')
+  container.appendChild(controlContainer)
+
+  // Create metrics container
+  const metricsContainer = document.createElement('div')
+  container.appendChild(metricsContainer)
+
+  // Create settings container
+  const settingsContainer = document.createElement('div')
+  container.appendChild(settingsContainer)
+
+  /**
+   * Create the visualization and controls
+   */
+  function initialize(): void {
+    document.title = `${metadata.name} - Visualization Platform`
+
+    visualization = factory({ height: getCanvasHeight() })
+    visualization.setup(canvasContainer)
+
+    const speedIndex = DEFAULT_CONTROL_PANEL_CONFIG.initialSpeedIndex
+    controller = new AnimationController()
+    controller.attach(visualization)
+    controller.setSpeed(DEFAULT_SPEED_PRESETS[speedIndex]!.delayMs)
+
+    controlPanel = new ControlPanel(controlContainer, {
+      onPlay: () => {
+        if (visualization?.getState() === 'completed') {
+          visualization.reset()
+        }
+        controller?.play()
+      },
+      onPause: () => controller?.pause(),
+      onStep: () => visualization?.step(),
+      onStepBack: () => controller?.stepBack(),
+      onSeek: (stepIndex) => controller?.seek(stepIndex),
+      onReset: () => {
+        visualization?.reset()
+        metricsDisplay?.reset()
+      },
+      onSpeedChange: (preset) => controller?.setSpeed(preset.delayMs),
+    })
+
+    metricsDisplay = new MetricsDisplay(metricsContainer)
+    settingsForm = createVisualizationSettings(settingsContainer, visualization, `${metadata.id}-settings`)
+
+    /**
+     * Sync the timeline scrubber and metrics with the visualization
+     */
+    const updateProgress = (): void => {
+      if (!visualization) return
+      controlPanel?.setProgress(visualization.getCurrentStepIndex(), visualization.getTotalSteps())
+      metricsDisplay?.update(visualization.getMetrics())
+    }
+
+    visualization.on('stateChange', (state) => {
+      controlPanel?.setState(state)
+      updateProgress()
+    })
+    // Fast playback runs many steps per frame; update the DOM once a frame
+    visualization.on('stepComplete', throttleRAF(updateProgress))
+    visualization.on('seek', updateProgress)
+    visualization.on('reset', updateProgress)
+    visualization.on('complete', (metrics) => {
+      metricsDisplay?.update(metrics)
+    })
+
+    handleResize = (): void => {
+      // Through the form's manager, so the form's config keeps the new height
+      settingsForm?.getManager().set({ height: getCanvasHeight() })
+    }
+    window.addEventListener('resize', handleResize)
+  }
+
+  /**
+   * Release the visualization, playback loop and listeners
+   */
+  function destroy(): void {
+    if (handleResize) {
+      window.removeEventListener('resize', handleResize)
+      handleResize = null
+    }
+    // Stop the playback loop before the visualization goes away
+    controller?.destroy()
+    visualization?.destroy()
+    controlPanel?.destroy()
+    metricsDisplay?.destroy()
+    settingsForm?.destroy()
+    controller = null
+    visualization = null
+    controlPanel = null
+    metricsDisplay = null
+    settingsForm = null
+  }
+
+  return {
+    element: container,
+    mount: initialize,
+    unmount: destroy,
+    // Ask before throwing away a running animation
+    canLeave: () =>
+      !controller?.isPlaying() || window.confirm('The animation is still playing. Leave this page?'),
+  }
+}
@@ -2,16 +2,67 @@
  * Type definitions for the routing system
  */
 
+/**
+ * Path parameters extracted from the URL (e.g., { id: 'heap-sort' } for '/viz/:id')
+ */
+export type RouteParams = Record<string, string>;
+
+/**
+ * Query string parameters (e.g., { algo: 'quick-sort' } for '?algo=quick-sort')
+ */
+export type RouteQuery = Record<string, string>;
+
+/**
+ * Information about the matched URL passed to a route's render function
+ */
+export interface RouteContext {
+  /** Matched path without the query string (e.g., '/viz/heap-sort') */
+  path: string;
+  /** Path parameters */
+  params: RouteParams;
+  /** Query string parameters */
+  query: RouteQuery;
+  /** Replace the query string of the current URL without rendering again (e.g., to keep a permalink current) */
+  replaceQuery: (query: RouteQuery | string) => void;
+}
+
+/**
+ * Options for Router.navigate()
+ */
+export interface NavigateOptions {
+  /** Values for ':name' segments in the path */
+  params?: RouteParams;
+  /** Query string parameters to append */
+  query?: RouteQuery;
+}
+
+/**
+ * Rendered page with lifecycle hooks
+ *
+ * A route may render a plain element, or a view when the page holds
+ * resources (listeners, timers, observers) that must be released.
+ */
+export interface RouteView {
+  /** Page content */
+  element: HTMLElement;
+  /** Called once the element is attached to the document */
+  mount?: () => void;
+  /** Called before the element is removed; release everything acquired in mount */
+  unmount?: () => void;
+  /** Return false to veto navigation away from the page (e.g., while an animation is playing) */
+  canLeave?: (to: string) => boolean | Promise<boolean>;
+}
+
 /**
  * Route configuration object
  */
 export interface Route {
-  /** Unique route path (e.g., '/', '/sorting', '/about') */
+  /** Unique route path, segments starting with ':' are parameters (e.g., '/', '/sorting', '/viz/:id') */
   path: string;
   /** Route title for document.title */
   title: string;
-  /** Function that renders the route content */
-  render: () => HTMLElement | Promise<HTMLElement>;
+  /** Function that renders the route content, optionally with lifecycle hooks */
+  render: (context: RouteContext) => HTMLElement | RouteView | Promise<HTMLElement | RouteView>;
   /** Optional route metadata */
   meta?: {
     description?: string;
@@ -20,10 +71,46 @@ export interface Route {
   };
 }
 
+/**
+ * How routes are stored in the URL
+ * - 'hash': '#/path' URLs, which work on any static host
+ * - 'history': '/path' URLs using the History API; the host must serve the
+ *   app for unknown paths (the build emits a 404.html copy for GitHub Pages)
+ */
+export type RouterMode = 'hash' | 'history';
+
+/**
+ * Where the router reads and writes the current path
+ * push() and replace() must not notify listeners; listen() reports only
+ * changes made outside the router (back/forward, edited URLs).
+ */
+export interface RouterHistory {
+  /** Current route path including any query string (e.g., '/sorting?algo=quick-sort') */
+  getPath(): string;
+  /** Add an entry for a path */
+  push(path: string): void;
+  /** Replace the current entry with a path */
+  replace(path: string): void;
+  /** Subscribe to external path changes, returns an unsubscribe function */
+  listen(callback: () => void): () => void;
+  /** Get the href that links to a path */
+  createHref(path: string): string;
+}
+
 /**
  * Router configuration options
  */
 export interface RouterConfig {
+  /** URL mode (defaults to 'hash'), ignored when a history is given */
+  mode?: RouterMode;
+  /** Base path the app is served from in history mode (defaults to '/') */
+  base?: string;
+  /** Custom history adapter (e.g., createMemoryHistory() for tests) */
+  history?: RouterHistory;
+  /** Route clicks on '#/path' links through the router (defaults to true in history mode) */
+  interceptLinks?: boolean;
+  /** Element whose links are intercepted (defaults to root; e.g., the whole app to include its navigation) */
+  linkRoot?: HTMLElement;
   /** Root element to render routes into */
   root: HTMLElement;
   /** Routes configuration */
@@ -33,7 +120,11 @@ export interface RouterConfig {
   /** Optional callback before route changes */
   beforeRouteChange?: (from: string, to: string) => boolean | Promise<boolean>;
   /** Optional callback after route changes */
-  afterRouteChange?: (route: Route) => void;
+  afterRouteChange?: (route: Route, context: RouteContext) => void;
+  /** Optional content shown while an async route is loading */
+  renderLoading?: () => HTMLElement;
+  /** Optional content shown when a route fails to render; retry renders the route again */
+  renderError?: (error: unknown, retry: () => void) => HTMLElement;
 }
 
 /**
@@ -41,15 +132,19 @@ export interface RouterConfig {
  */
 export interface IRouter {
   /** Navigate to a specific route */
-  navigate(path: string): Promise<void>;
+  navigate(path: string, options?: NavigateOptions): Promise<void>;
   /** Get current route path */
   getCurrentRoute(): string;
   /** Get current route object */
   getCurrentRouteObject(): Route | undefined;
+  /** Get the href for a route path in the current mode */
+  createHref(path: string): string;
   /** Start listening to route changes */
   start(): void;
   /** Stop listening to route changes */
   stop(): void;
+  /** Stop listening, unmount the current page and clear the root element */
+  dispose(): void;
   /** Register a new route */
   registerRoute(route: Route): void;
 }
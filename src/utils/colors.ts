@@ -264,6 +264,25 @@ export function parseColor(color: string): RGB | null {
   return null
 }
 
+/**
+ * Parse a color string to RGBA
+ * @param color Color string (hex, rgb, rgba, hsl, or hsla)
+ */
+export function parseRGBA(color: string): RGBA | null {
+  const hslMatch = color.match(/hsla?\(\s*(-?[\d.]+),\s*([\d.]+)%,\s*([\d.]+)%(?:,\s*([\d.]+))?/)
+  if (hslMatch && hslMatch[1] && hslMatch[2] && hslMatch[3]) {
+    const hue = ((parseFloat(hslMatch[1]) % 360) + 360) % 360
+    const parsed = hslToRgb(hue, parseFloat(hslMatch[2]), parseFloat(hslMatch[3]))
+    return { ...parsed, a: hslMatch[4] ? parseFloat(hslMatch[4]) : 1 }
+  }
+
+  const parsed = parseColor(color)
+  if (!parsed) return null
+
+  const alphaMatch = color.match(/rgba\([^,]+,[^,]+,[^,]+,\s*([\d.]+)/)
+  return { ...parsed, a: alphaMatch && alphaMatch[1] ? parseFloat(alphaMatch[1]) : 1 }
+}
+
 /**
  * Lighten a color
  * @param color Color string
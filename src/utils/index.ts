@@ -5,6 +5,7 @@
  * - Canvas utilities for rendering
  * - Color utilities for generating and manipulating colors
  * - Animation utilities for smooth animations
+ * - Seedable random number generation
  */
 
 // Canvas utilities
@@ -43,6 +44,7 @@ export {
   valueToColor,
   interpolateColors,
   parseColor,
+  parseRGBA,
   lighten,
   darken,
   saturate,
@@ -74,3 +76,13 @@ export {
   type AnimationLoopOptions,
   type SpringConfig,
 } from './animation'
+
+// Random number generation
+export {
+  createRandom,
+  randomSeed,
+  hashSeed,
+  isValidSeed,
+  MAX_SEED,
+  type RandomSource,
+} from './random'
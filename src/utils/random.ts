@@ -0,0 +1,64 @@
+/**
+ * Seedable pseudo-random number generation
+ *
+ * Visualizations use these instead of Math.random() so that a run can be
+ * reproduced exactly from its seed.
+ */
+
+/**
+ * Source of uniformly distributed numbers in [0, 1)
+ */
+export type RandomSource = () => number
+
+/**
+ * Largest accepted seed (seeds are unsigned 32-bit integers)
+ */
+export const MAX_SEED = 0xffffffff
+
+/**
+ * Create a deterministic random source (mulberry32)
+ * The same seed always produces the same sequence.
+ * @param seed Unsigned 32-bit integer seed
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a new seed
+ * Kept to six digits so it is easy to read back and type in.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000)
+}
+
+/**
+ * Derive a seed from a list of numbers (FNV-1a over their values)
+ * Useful for making randomized algorithms deterministic for a given input.
+ * @param values Numbers to hash
+ */
+export function hashSeed(values: readonly number[]): number {
+  let hash = 0x811c9dc5
+
+  for (const value of values) {
+    hash ^= value | 0
+    hash = Math.imul(hash, 0x01000193)
+  }
+
+  return hash >>> 0
+}
+
+/**
+ * Check whether a value is a valid seed
+ */
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED
+}
@@ -0,0 +1,18 @@
+/**
+ * Visualization catalog
+ *
+ * Registers every built-in visualization lazily: only the metadata is part
+ * of the initial bundle, and each implementation is code-split into its own
+ * chunk that is fetched when the visualization is first opened.
+ *
+ * Import this module for its side effect before reading the registry.
+ */
+
+import { VisualizationRegistry } from './core/VisualizationRegistry'
+import type { BaseVisualizationConfig } from './core/types'
+import { SORTING_VISUALIZER_METADATA } from './sorting/metadata'
+
+VisualizationRegistry.registerLazy(SORTING_VISUALIZER_METADATA, async () => {
+  const { SortingVisualizer } = await import('./sorting')
+  return (config?: Partial<BaseVisualizationConfig>) => new SortingVisualizer(config)
+})
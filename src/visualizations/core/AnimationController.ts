@@ -1,14 +1,24 @@
 /**
  * Animation controller for managing visualization playback
  *
- * Provides play, pause, step, and speed control functionality
- * that can be connected to any visualization.
+ * Provides play, pause, step, seek, and speed control functionality
+ * that can be connected to any visualization. Playback is driven by
+ * animation frames: each frame runs the steps due at the current speed
+ * (several per frame at high speeds) and draws once, and waits while the
+ * previous step's tween is still running, counting the tween toward the
+ * step's delay.
  */
 
 import type { Visualization } from './Visualization'
 import type { AnimationConfig, PlaybackState, SpeedPreset } from './types'
 import { DEFAULT_ANIMATION_CONFIG } from './types'
 
+/** Shortest step delay, i.e. at most a million steps per second */
+const MIN_STEP_DELAY_MS = 0.001
+
+/** Longest stretch of missed time a frame makes up for */
+const MAX_CATCH_UP_MS = 100
+
 /**
  * Events emitted by the animation controller
  */
@@ -30,8 +40,14 @@ export class AnimationController {
   /** Current step delay in milliseconds */
   private stepDelay: number
 
-  /** Timeout ID for the animation loop */
-  private timeoutId: ReturnType<typeof setTimeout> | null = null
+  /** Animation frame request ID for the playback loop */
+  private frameId: number | null = null
+
+  /** Timestamp of the previous frame, null before the first */
+  private lastFrameTime: number | null = null
+
+  /** Steps owed to the timeline, including fractions carried between frames */
+  private stepBudget = 0
 
   /** Whether the animation is currently running */
   private isRunning = false
@@ -55,6 +71,7 @@ export class AnimationController {
     }
 
     this.visualization = visualization
+    this.visualization.setStepDuration(this.stepDelay)
 
     // Listen to visualization state changes
     this.visualization.on('stateChange', this.handleStateChange)
@@ -88,7 +105,8 @@ export class AnimationController {
    * Handle visualization reset
    */
   private handleReset = (): void => {
-    this.stop()
+    // The visualization has already reset itself; only the loop needs stopping
+    this.stopLoop()
   }
 
   /**
@@ -141,6 +159,55 @@ export class AnimationController {
   step(): void {
     if (!this.visualization) return
     this.visualization.step()
+    this.emitTick()
+  }
+
+  /**
+   * Go back a single step
+   */
+  stepBack(): void {
+    if (!this.visualization) return
+    this.visualization.stepBack()
+    this.emitTick()
+  }
+
+  /**
+   * Jump to a position in the timeline (pauses playback)
+   * @param stepIndex Number of steps to have executed
+   */
+  seek(stepIndex: number): void {
+    if (!this.visualization) return
+    this.stopLoop()
+    this.visualization.seek(stepIndex)
+    this.emitTick()
+  }
+
+  /**
+   * Jump to the start of the timeline
+   */
+  seekToStart(): void {
+    this.seek(0)
+  }
+
+  /**
+   * Jump to the end of the timeline
+   */
+  seekToEnd(): void {
+    this.seek(Number.POSITIVE_INFINITY)
+  }
+
+  /**
+   * Get the current timeline position
+   */
+  getCurrentStep(): number {
+    return this.visualization?.getCurrentStepIndex() ?? 0
+  }
+
+  /**
+   * Get the total number of steps in the timeline
+   */
+  getTotalSteps(): number {
+    return this.visualization?.getTotalSteps() ?? 0
   }
 
   /**
@@ -163,10 +230,11 @@ export class AnimationController {
 
   /**
    * Set the animation speed (delay between steps)
-   * @param delayMs Delay in milliseconds
+   * @param delayMs Delay in milliseconds; fractions of a millisecond run several steps per frame
    */
   setSpeed(delayMs: number): void {
-    this.stepDelay = Math.max(1, delayMs)
+    this.stepDelay = Math.max(MIN_STEP_DELAY_MS, delayMs)
+    this.visualization?.setStepDuration(this.stepDelay)
     this.emit('speedChange', this.stepDelay)
   }
 
@@ -177,6 +245,21 @@ export class AnimationController {
     return this.stepDelay
   }
 
+  /**
+   * Set the speed as a steps-per-second target
+   * @param stepsPerSecond Steps to run each second (e.g. 0.5 to 100000)
+   */
+  setStepsPerSecond(stepsPerSecond: number): void {
+    this.setSpeed(1000 / stepsPerSecond)
+  }
+
+  /**
+   * Get the current steps-per-second target
+   */
+  getStepsPerSecond(): number {
+    return 1000 / this.stepDelay
+  }
+
   /**
    * Set speed from a preset
    * @param preset Speed preset or preset name
@@ -217,7 +300,7 @@ export class AnimationController {
       this.setSpeedPreset(nextPreset)
     } else {
       // Already at fastest preset, halve the delay
-      this.setSpeed(Math.max(1, this.stepDelay / 2))
+      this.setSpeed(this.stepDelay / 2)
     }
   }
 
@@ -258,11 +341,14 @@ export class AnimationController {
 
   /**
    * Start the animation loop
+   * The first step runs on the next frame.
    */
   private startLoop(): void {
     if (this.isRunning) return
     this.isRunning = true
-    this.tick()
+    this.lastFrameTime = null
+    this.stepBudget = 1
+    this.frameId = requestAnimationFrame(this.frame)
   }
 
   /**
@@ -270,16 +356,17 @@ export class AnimationController {
    */
   private stopLoop(): void {
     this.isRunning = false
-    if (this.timeoutId !== null) {
-      clearTimeout(this.timeoutId)
-      this.timeoutId = null
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId)
+      this.frameId = null
     }
   }
 
   /**
-   * Animation tick - executes one step and schedules the next
+   * Animation frame - runs the steps due since the last frame, then draws once
    */
-  private tick = (): void => {
+  private frame = (timestamp: number): void => {
+    this.frameId = null
     if (!this.isRunning || !this.visualization) return
 
     const state = this.visualization.getState()
@@ -288,15 +375,41 @@ export class AnimationController {
       return
     }
 
-    // Execute the next step
-    const hasMore = this.visualization.tick()
+    const elapsed = this.lastFrameTime === null ? 0 : timestamp - this.lastFrameTime
+    this.lastFrameTime = timestamp
 
-    // Schedule next tick if there are more steps
-    if (hasMore) {
-      this.timeoutId = setTimeout(this.tick, this.stepDelay)
+    // Cap the backlog so a stall (e.g. a background tab) doesn't run a burst of steps
+    const maxBudget = Math.max(1, (MAX_CATCH_UP_MS / this.stepDelay))
+    this.stepBudget = Math.min(maxBudget, this.stepBudget + elapsed / this.stepDelay)
+
+    // Let the previous step's tween end before the bars move again; the
+    // tween is part of that step's delay, so time spent on it still counts
+    if (this.visualization.isTweening()) {
+      this.stepBudget = Math.min(1, this.stepBudget)
     } else {
-      this.stopLoop()
+      const count = Math.floor(this.stepBudget)
+      if (count > 0) {
+        this.stepBudget -= count
+        this.visualization.advance(count)
+        this.emitTick()
+
+        // Listeners may have paused playback or detached the visualization
+        if (this.visualization?.getState() !== 'playing') {
+          this.stopLoop()
+          return
+        }
+      }
     }
+
+    this.frameId = requestAnimationFrame(this.frame)
+  }
+
+  /**
+   * Emit the current timeline position
+   */
+  private emitTick(): void {
+    if (!this.visualization) return
+    this.emit('tick', this.visualization.getCurrentStepIndex(), this.visualization.getTotalSteps())
   }
 
   /**
@@ -0,0 +1,401 @@
+/**
+ * Batch renderers for drawing many filled shapes per frame
+ *
+ * Visualizations add rectangles and quads to a renderer during render()
+ * and the renderer draws them. The 2D canvas renderer draws each shape as
+ * it is added; the WebGL renderer collects them into vertex buffers and
+ * draws the whole frame in a single draw call, which keeps frames smooth
+ * with tens of thousands of elements. WebGL shapes end up behind anything
+ * drawn directly on the 2D context in the same frame, so fills belong on
+ * the renderer and outlines and labels on the context.
+ */
+
+import { parseRGBA } from '../../utils/colors'
+import type { RGBA } from '../../utils/colors'
+
+/**
+ * Backend drawing a batch renderer's shapes
+ */
+export type RendererBackend = 'canvas2d' | 'webgl'
+
+/**
+ * Draws filled shapes onto a visualization's 2D canvas
+ */
+export interface BatchRenderer {
+  /** Backend drawing the shapes */
+  readonly backend: RendererBackend
+  /**
+   * Start a frame
+   * @param width Canvas width in CSS pixels
+   * @param height Canvas height in CSS pixels
+   * @param pixelRatio Device pixel ratio the canvas is scaled by
+   */
+  begin(width: number, height: number, pixelRatio: number): void
+  /** Add an axis-aligned rectangle */
+  rect(x: number, y: number, width: number, height: number, color: string): void
+  /** Add a quadrilateral, corners given in order around its edge */
+  quad(
+    x1: number, y1: number,
+    x2: number, y2: number,
+    x3: number, y3: number,
+    x4: number, y4: number,
+    color: string
+  ): void
+  /** Draw the shapes added since begin() that are not drawn yet */
+  flush(): void
+  /** Release the renderer's resources */
+  destroy(): void
+}
+
+/**
+ * Draws shapes straight onto the 2D context as they are added
+ */
+export class Canvas2DBatchRenderer implements BatchRenderer {
+  readonly backend = 'canvas2d'
+
+  private ctx: CanvasRenderingContext2D
+
+  constructor(ctx: CanvasRenderingContext2D) {
+    this.ctx = ctx
+  }
+
+  begin(): void {
+    // Shapes are drawn as they are added
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: string): void {
+    this.ctx.fillStyle = color
+    this.ctx.fillRect(x, y, width, height)
+  }
+
+  quad(
+    x1: number, y1: number,
+    x2: number, y2: number,
+    x3: number, y3: number,
+    x4: number, y4: number,
+    color: string
+  ): void {
+    const ctx = this.ctx
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.moveTo(x1, y1)
+    ctx.lineTo(x2, y2)
+    ctx.lineTo(x3, y3)
+    ctx.lineTo(x4, y4)
+    ctx.closePath()
+    ctx.fill()
+  }
+
+  flush(): void {
+    // Nothing is buffered
+  }
+
+  destroy(): void {
+    // Nothing to release
+  }
+}
+
+/** Floats per vertex position (x, y) */
+const POSITION_SIZE = 2
+
+/** Bytes per vertex color (r, g, b, a) */
+const COLOR_SIZE = 4
+
+/** Vertices per shape (two triangles) */
+const VERTICES_PER_SHAPE = 6
+
+/** Shapes the vertex buffers hold before they first grow */
+const INITIAL_SHAPE_CAPACITY = 4096
+
+/** Parsed colors kept before the color cache is cleared */
+const MAX_CACHED_COLORS = 4096
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec4 a_color;
+uniform vec2 u_resolution;
+varying vec4 v_color;
+
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+}
+`
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec4 v_color;
+
+void main() {
+  gl_FragColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}
+`
+
+/**
+ * Collects shapes into vertex buffers and draws them with one WebGL draw
+ * call into a canvas of its own, which flush() then composites behind
+ * what was drawn on the 2D context this frame
+ */
+export class WebGLBatchRenderer implements BatchRenderer {
+  readonly backend = 'webgl'
+
+  private target: CanvasRenderingContext2D
+  private canvas: HTMLCanvasElement
+  private gl: WebGLRenderingContext
+  private positionBuffer: WebGLBuffer
+  private colorBuffer: WebGLBuffer
+  private resolutionLocation: WebGLUniformLocation | null
+
+  /** Vertex positions of the shapes added this frame */
+  private positions = new Float32Array(INITIAL_SHAPE_CAPACITY * VERTICES_PER_SHAPE * POSITION_SIZE)
+
+  /** Vertex colors of the shapes added this frame */
+  private colors = new Uint8Array(INITIAL_SHAPE_CAPACITY * VERTICES_PER_SHAPE * COLOR_SIZE)
+
+  /** Number of shapes added this frame */
+  private shapeCount = 0
+
+  /** Parsed colors by color string */
+  private colorCache: Map<string, RGBA> = new Map()
+
+  /** Frame size in CSS pixels */
+  private width = 0
+  private height = 0
+
+  /** Whether the browser took the WebGL context away */
+  private contextLost = false
+
+  /**
+   * Create a WebGL renderer drawing behind a 2D context
+   * @param target 2D context to composite onto
+   * @returns The renderer, or null if WebGL is unavailable
+   */
+  static create(target: CanvasRenderingContext2D): WebGLBatchRenderer | null {
+    if (typeof document === 'undefined') return null
+
+    const canvas = document.createElement('canvas')
+    const gl = canvas.getContext('webgl', { antialias: false, depth: false, stencil: false })
+    if (!gl) return null
+
+    const program = createProgram(gl)
+    const positionBuffer = gl.createBuffer()
+    const colorBuffer = gl.createBuffer()
+    if (!program || !positionBuffer || !colorBuffer) return null
+
+    return new WebGLBatchRenderer(target, canvas, gl, program, positionBuffer, colorBuffer)
+  }
+
+  private constructor(
+    target: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    gl: WebGLRenderingContext,
+    program: WebGLProgram,
+    positionBuffer: WebGLBuffer,
+    colorBuffer: WebGLBuffer
+  ) {
+    this.target = target
+    this.canvas = canvas
+    this.gl = gl
+    this.positionBuffer = positionBuffer
+    this.colorBuffer = colorBuffer
+
+    gl.useProgram(program)
+    this.resolutionLocation = gl.getUniformLocation(program, 'u_resolution')
+
+    const positionLocation = gl.getAttribLocation(program, 'a_position')
+    gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer)
+    gl.enableVertexAttribArray(positionLocation)
+    gl.vertexAttribPointer(positionLocation, POSITION_SIZE, gl.FLOAT, false, 0, 0)
+
+    const colorLocation = gl.getAttribLocation(program, 'a_color')
+    gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer)
+    gl.enableVertexAttribArray(colorLocation)
+    gl.vertexAttribPointer(colorLocation, COLOR_SIZE, gl.UNSIGNED_BYTE, true, 0, 0)
+
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+
+    canvas.addEventListener('webglcontextlost', this.handleContextLost)
+  }
+
+  /**
+   * Handle the browser taking the WebGL context away
+   */
+  private handleContextLost = (event: Event): void => {
+    event.preventDefault()
+    this.contextLost = true
+  }
+
+  /**
+   * Whether the WebGL context was lost; a lost renderer draws nothing
+   */
+  isContextLost(): boolean {
+    return this.contextLost
+  }
+
+  begin(width: number, height: number, pixelRatio: number): void {
+    this.width = width
+    this.height = height
+    this.shapeCount = 0
+
+    const pixelWidth = Math.max(1, Math.round(width * pixelRatio))
+    const pixelHeight = Math.max(1, Math.round(height * pixelRatio))
+    if (this.canvas.width !== pixelWidth || this.canvas.height !== pixelHeight) {
+      this.canvas.width = pixelWidth
+      this.canvas.height = pixelHeight
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: string): void {
+    this.quad(x, y, x + width, y, x + width, y + height, x, y + height, color)
+  }
+
+  quad(
+    x1: number, y1: number,
+    x2: number, y2: number,
+    x3: number, y3: number,
+    x4: number, y4: number,
+    color: string
+  ): void {
+    const rgba = this.parseColor(color)
+    if (!rgba) return
+
+    this.ensureCapacity(this.shapeCount + 1)
+
+    // Triangles (1, 2, 3) and (1, 3, 4)
+    let p = this.shapeCount * VERTICES_PER_SHAPE * POSITION_SIZE
+    const positions = this.positions
+    positions[p++] = x1; positions[p++] = y1
+    positions[p++] = x2; positions[p++] = y2
+    positions[p++] = x3; positions[p++] = y3
+    positions[p++] = x1; positions[p++] = y1
+    positions[p++] = x3; positions[p++] = y3
+    positions[p++] = x4; positions[p++] = y4
+
+    let c = this.shapeCount * VERTICES_PER_SHAPE * COLOR_SIZE
+    const colors = this.colors
+    const alpha = Math.round(rgba.a * 255)
+    for (let v = 0; v < VERTICES_PER_SHAPE; v++) {
+      colors[c++] = rgba.r
+      colors[c++] = rgba.g
+      colors[c++] = rgba.b
+      colors[c++] = alpha
+    }
+
+    this.shapeCount++
+  }
+
+  flush(): void {
+    if (this.contextLost || this.shapeCount === 0) return
+
+    const gl = this.gl
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height)
+    gl.clearColor(0, 0, 0, 0)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+    gl.uniform2f(this.resolutionLocation, this.width, this.height)
+
+    const vertexCount = this.shapeCount * VERTICES_PER_SHAPE
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, this.positions.subarray(0, vertexCount * POSITION_SIZE), gl.STREAM_DRAW)
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.colorBuffer)
+    gl.bufferData(gl.ARRAY_BUFFER, this.colors.subarray(0, vertexCount * COLOR_SIZE), gl.STREAM_DRAW)
+    gl.drawArrays(gl.TRIANGLES, 0, vertexCount)
+
+    // Put the shapes behind what was already drawn on the 2D context
+    this.target.save()
+    this.target.globalCompositeOperation = 'destination-over'
+    this.target.drawImage(this.canvas, 0, 0, this.width, this.height)
+    this.target.restore()
+
+    this.shapeCount = 0
+  }
+
+  destroy(): void {
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost)
+    if (!this.contextLost) {
+      this.gl.deleteBuffer(this.positionBuffer)
+      this.gl.deleteBuffer(this.colorBuffer)
+      this.gl.getExtension('WEBGL_lose_context')?.loseContext()
+    }
+    this.contextLost = true
+    this.colorCache.clear()
+  }
+
+  /**
+   * Parse a color string, caching the result
+   */
+  private parseColor(color: string): RGBA | null {
+    let rgba = this.colorCache.get(color)
+    if (rgba) return rgba
+
+    const parsed = parseRGBA(color)
+    if (!parsed) return null
+
+    // Value palettes produce a color per value; keep the cache bounded
+    if (this.colorCache.size >= MAX_CACHED_COLORS) {
+      this.colorCache.clear()
+    }
+    rgba = parsed
+    this.colorCache.set(color, rgba)
+    return rgba
+  }
+
+  /**
+   * Grow the vertex arrays to hold at least the given number of shapes
+   */
+  private ensureCapacity(shapes: number): void {
+    const capacity = this.positions.length / (VERTICES_PER_SHAPE * POSITION_SIZE)
+    if (shapes <= capacity) return
+
+    let next = capacity * 2
+    while (next < shapes) next *= 2
+
+    const positions = new Float32Array(next * VERTICES_PER_SHAPE * POSITION_SIZE)
+    positions.set(this.positions)
+    this.positions = positions
+
+    const colors = new Uint8Array(next * VERTICES_PER_SHAPE * COLOR_SIZE)
+    colors.set(this.colors)
+    this.colors = colors
+  }
+}
+
+/**
+ * Compile and link the shader program
+ * @returns The program, or null if the shaders fail to compile or link
+ */
+function createProgram(gl: WebGLRenderingContext): WebGLProgram | null {
+  const vertexShader = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER)
+  const fragmentShader = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER)
+  const program = gl.createProgram()
+  if (!vertexShader || !fragmentShader || !program) return null
+
+  gl.attachShader(program, vertexShader)
+  gl.attachShader(program, fragmentShader)
+  gl.linkProgram(program)
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Failed to link batch renderer shaders:', gl.getProgramInfoLog(program))
+    return null
+  }
+  return program
+}
+
+/**
+ * Compile a shader
+ * @returns The shader, or null if it fails to compile
+ */
+function compileShader(gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null {
+  const shader = gl.createShader(type)
+  if (!shader) return null
+
+  gl.shaderSource(shader, source)
+  gl.compileShader(shader)
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error('Failed to compile batch renderer shader:', gl.getShaderInfoLog(shader))
+    return null
+  }
+  return shader
+}
@@ -1,7 +1,10 @@
 /**
  * Configuration manager for visualizations
  *
- * Provides type-safe configuration validation, merging, and persistence.
+ * Provides type-safe configuration validation (per field and across
+ * fields), merging, named presets
+ * (with JSON import/export), and versioned persistence with migrations for
+ * stored configs of older versions.
  */
 
 import type { BaseVisualizationConfig } from './types'
@@ -21,12 +24,86 @@ export class ConfigValidationError extends Error {
   }
 }
 
+/**
+ * Error raised when a persisted config can't be upgraded to the current version
+ */
+export class ConfigMigrationError extends Error {
+  constructor(
+    /** Storage key (or 'import') the config came from */
+    public readonly source: string,
+    public readonly fromVersion: number,
+    public readonly toVersion: number,
+    public readonly reason: string
+  ) {
+    super(`Cannot migrate config "${source}" from version ${fromVersion} to ${toVersion}: ${reason}`)
+    this.name = 'ConfigMigrationError'
+  }
+}
+
+/**
+ * Upgrades persisted config data by one version
+ * Receives the stored values of version n and returns the values of version n + 1.
+ */
+export type ConfigMigration = (data: Record<string, unknown>) => Record<string, unknown>
+
+/**
+ * Options for persisting config to localStorage
+ */
+export interface PersistenceOptions {
+  /** Version of the current config shape, stored with the data (default: 0) */
+  version?: number
+  /** Migrations keyed by the version they upgrade from */
+  migrations?: Record<number, ConfigMigration>
+}
+
+/**
+ * Events emitted by ConfigManager
+ */
+export interface ConfigManagerEvents {
+  /** Stored config or presets couldn't be migrated; defaults (or no presets) are used instead */
+  migrationError: (error: ConfigMigrationError) => void
+  /** A stored value failed validation and was dropped */
+  invalidStoredValue: (error: ConfigValidationError) => void
+  /** Presets were saved, renamed, deleted or imported */
+  presetsChange: (names: string[]) => void
+}
+
+/**
+ * Shape of the data written to localStorage
+ */
+interface PersistedConfig {
+  version: number
+  config: Record<string, unknown>
+}
+
+/**
+ * Named snapshot of config values
+ */
+export interface ConfigPreset<T> {
+  /** Unique preset name */
+  name: string
+  /** Saved config values */
+  config: Partial<T>
+  /** Other state saved by the page with the config (e.g., the selected algorithm) */
+  extras?: Record<string, unknown>
+}
+
+/**
+ * Options for saving a preset
+ */
+export interface SavePresetOptions<T> {
+  /** Config keys to save (default: all) */
+  keys?: (keyof T)[]
+  /** Other state to save with the config */
+  extras?: Record<string, unknown>
+}
+
 /**
  * Validation rule for a configuration field
  */
 export interface ValidationRule<T> {
   /** Validation function, returns true if valid */
-  validate: (value: T) => boolean
+  validate(value: T): boolean
   /** Error message if validation fails */
   message: string
 }
@@ -38,6 +115,54 @@ export type ConfigSchema<T> = {
   [K in keyof T]?: ValidationRule<T[K]>[]
 }
 
+/**
+ * Validation rule that checks several configuration fields together
+ */
+export interface CrossFieldRule<T> {
+  /**
+   * Names of the fields the rule reads; it is checked when any of them changes
+   * (plain strings, so rules for a subclass config fit Visualization's base type)
+   */
+  fields: string[]
+  /** Validation function, returns true if the combined config is valid */
+  validate(config: T): boolean
+  /** Error message if validation fails */
+  message: string
+}
+
+/**
+ * Form control used to edit a configuration field
+ */
+export type ConfigFieldControl = 'number' | 'range' | 'select' | 'checkbox' | 'text' | 'color'
+
+/**
+ * Display metadata for a configuration field, used to generate settings forms
+ */
+export interface ConfigField {
+  /** Label shown with the control */
+  label: string
+  /** Control type */
+  control: ConfigFieldControl
+  /** Value to display name, for select controls */
+  choices?: Record<string, string>
+  /** Minimum value, for number and range controls */
+  min?: number
+  /** Maximum value, for number and range controls */
+  max?: number
+  /** Step size, for number and range controls */
+  step?: number
+  /** Help text shown below the control */
+  hint?: string
+}
+
+/**
+ * Field metadata for a configuration type
+ * Fields are shown in declaration order; fields without metadata are not editable.
+ */
+export type ConfigFields<T> = {
+  [K in keyof T]?: ConfigField
+}
+
 /**
  * Base validation rules for common config fields
  */
@@ -68,6 +193,13 @@ export const BASE_CONFIG_SCHEMA: ConfigSchema<BaseVisualizationConfig> = {
   ],
 }
 
+/**
+ * Editable base config fields
+ */
+export const BASE_CONFIG_FIELDS: ConfigFields<BaseVisualizationConfig> = {
+  backgroundColor: { label: 'Background', control: 'color' },
+}
+
 /**
  * Configuration manager for type-safe config handling
  */
@@ -75,6 +207,30 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
   /** Storage key for persistence */
   private storageKey: string | null = null
 
+  /** Storage key for preset persistence */
+  private presetStorageKey: string | null = null
+
+  /** Stored presets couldn't be migrated, so they aren't overwritten until clearPresets() */
+  private presetStorageLocked = false
+
+  /** Saved presets by name, in the order they were created */
+  private presets: Map<string, ConfigPreset<T>> = new Map()
+
+  /** Version written with persisted config */
+  private version = 0
+
+  /** Migrations for persisted config, keyed by the version they upgrade from */
+  private migrations: Record<number, ConfigMigration> = {}
+
+  /** Version written with persisted and exported presets */
+  private presetVersion = 0
+
+  /** Migrations for persisted and imported presets, keyed by the version they upgrade from */
+  private presetMigrations: Record<number, ConfigMigration> = {}
+
+  /** Event listeners */
+  private eventListeners: Map<keyof ConfigManagerEvents, Set<ConfigManagerEvents[keyof ConfigManagerEvents]>> = new Map()
+
   /** Default configuration values */
   private defaults: T
 
@@ -84,28 +240,57 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
   /** Validation schema */
   private schema: ConfigSchema<T>
 
+  /** Rules that check several fields together */
+  private rules: CrossFieldRule<T>[]
+
   /** Change listeners */
   private listeners: Set<(config: T, changedKeys: (keyof T)[]) => void> = new Set()
 
   constructor(
     defaults: T,
-    schema: ConfigSchema<T> = {} as ConfigSchema<T>
+    schema: ConfigSchema<T> = {} as ConfigSchema<T>,
+    rules: CrossFieldRule<T>[] = []
   ) {
     this.defaults = { ...defaults }
     this.schema = { ...BASE_CONFIG_SCHEMA, ...schema } as ConfigSchema<T>
+    this.rules = [...rules]
     this.config = { ...defaults }
   }
 
   /**
    * Enable localStorage persistence
+   * Stored config of an older version is upgraded through the migrations
+   * (0 to 1, 1 to 2, ...). Subscribe to events with on() first to hear about
+   * configs that can't be migrated.
    * @param key Storage key to use
+   * @param options Current version and migrations from older versions
    */
-  enablePersistence(key: string): this {
+  enablePersistence(key: string, options: PersistenceOptions = {}): this {
     this.storageKey = key
+    this.version = options.version ?? 0
+    this.migrations = options.migrations ?? {}
     this.loadFromStorage()
     return this
   }
 
+  /**
+   * Enable localStorage persistence of presets (independent of the config itself)
+   * Presets saved by older versions are upgraded like persisted config, with
+   * a version and migrations of their own (presets imported from a file too).
+   * Stored presets that can't be migrated are left in storage, and presets
+   * aren't stored, until clearPresets() is called.
+   * @param key Storage key to use
+   * @param options Current version and migrations from older versions
+   */
+  enablePresetPersistence(key: string, options: PersistenceOptions = {}): this {
+    this.presetStorageKey = key
+    this.presetVersion = options.version ?? 0
+    this.presetMigrations = options.migrations ?? {}
+    this.presetStorageLocked = false
+    this.loadPresetsFromStorage()
+    return this
+  }
+
   /**
    * Disable localStorage persistence
    */
@@ -218,20 +403,12 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
 
   /**
    * Validate configuration values
+   * Cross-field rules are checked against the current config with the values applied.
    * @param values Values to validate
    * @throws ConfigValidationError if validation fails
    */
   validate(values: Partial<T>): void {
-    for (const [key, value] of Object.entries(values)) {
-      const rules = this.schema[key as keyof T]
-      if (rules) {
-        for (const rule of rules) {
-          if (!rule.validate(value as T[keyof T])) {
-            throw new ConfigValidationError(key, value, rule.message)
-          }
-        }
-      }
-    }
+    validateConfig(values, this.config, this.schema, this.rules)
   }
 
   /**
@@ -282,6 +459,245 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
     }
   }
 
+  /**
+   * Save the current config as a named preset, replacing any preset with that name
+   * @param name Preset name
+   * @param options Keys to save and extra state to store with them
+   * @throws ConfigValidationError if the name is empty
+   */
+  savePreset(name: string, options: SavePresetOptions<T> = {}): ConfigPreset<T> {
+    const presetName = validatePresetName(name)
+    const keys = options.keys ?? (Object.keys(this.config) as (keyof T)[])
+
+    const config: Partial<T> = {}
+    for (const key of keys) {
+      config[key] = this.config[key]
+    }
+
+    const preset: ConfigPreset<T> = { name: presetName, config }
+    if (options.extras) {
+      preset.extras = options.extras
+    }
+
+    this.presets.set(presetName, copyPreset(preset))
+    this.presetsChanged()
+    return copyPreset(preset)
+  }
+
+  /**
+   * Get all presets, in the order they were created
+   */
+  getPresets(): ConfigPreset<T>[] {
+    return Array.from(this.presets.values(), copyPreset)
+  }
+
+  /**
+   * Get a preset by name
+   * @param name Preset name
+   */
+  getPreset(name: string): ConfigPreset<T> | undefined {
+    const preset = this.presets.get(name)
+    return preset ? copyPreset(preset) : undefined
+  }
+
+  /**
+   * Set the config values saved in a preset
+   * @param name Preset name
+   * @returns The applied preset, so callers can restore its extras
+   * @throws ConfigValidationError if there is no such preset or a value is invalid
+   */
+  applyPreset(name: string): ConfigPreset<T> {
+    const preset = this.presets.get(name)
+    if (!preset) {
+      throw new ConfigValidationError('preset', name, `No preset named "${name}"`)
+    }
+
+    this.set(preset.config)
+    return copyPreset(preset)
+  }
+
+  /**
+   * Rename a preset, keeping its place in the list
+   * @param name Current preset name
+   * @param newName New preset name
+   * @throws ConfigValidationError if there is no such preset or the new name is empty or taken
+   */
+  renamePreset(name: string, newName: string): void {
+    const preset = this.presets.get(name)
+    if (!preset) {
+      throw new ConfigValidationError('preset', name, `No preset named "${name}"`)
+    }
+
+    const presetName = validatePresetName(newName)
+    if (presetName === name) return
+    if (this.presets.has(presetName)) {
+      throw new ConfigValidationError('name', newName, `A preset named "${presetName}" already exists`)
+    }
+
+    this.presets = new Map(
+      Array.from(this.presets, ([key, value]): [string, ConfigPreset<T>] =>
+        key === name ? [presetName, { ...value, name: presetName }] : [key, value]
+      )
+    )
+    this.presetsChanged()
+  }
+
+  /**
+   * Delete a preset
+   * @param name Preset name
+   * @returns Whether the preset existed
+   */
+  deletePreset(name: string): boolean {
+    const deleted = this.presets.delete(name)
+    if (deleted) {
+      this.presetsChanged()
+    }
+    return deleted
+  }
+
+  /**
+   * Delete all presets
+   * Also overwrites stored presets that couldn't be migrated.
+   */
+  clearPresets(): void {
+    this.presets.clear()
+    this.presetStorageLocked = false
+    this.presetsChanged()
+  }
+
+  /**
+   * Export all presets as JSON, tagged with the preset version
+   */
+  exportPresets(): string {
+    return JSON.stringify({ version: this.presetVersion, presets: this.getPresets() }, null, 2)
+  }
+
+  /**
+   * Import presets exported by exportPresets()
+   * Presets from older versions are migrated. Imported presets replace
+   * existing presets with the same name; nothing is imported if any preset is invalid.
+   * @param json Exported presets
+   * @returns Names of the imported presets
+   * @throws ConfigValidationError if the JSON or a preset is invalid
+   * @throws ConfigMigrationError if the presets can't be migrated
+   */
+  importPresets(json: string): string[] {
+    let data: unknown
+    try {
+      data = JSON.parse(json)
+    } catch {
+      throw new ConfigValidationError('presets', json, 'Not a valid presets file')
+    }
+
+    const { presets, version } = this.readPresets(data, 'import')
+    for (const preset of presets) {
+      this.presets.set(preset.name, preset)
+    }
+
+    // Keep the stored presets at the current version
+    if (presets.length > 0 || version !== this.presetVersion) {
+      this.presetsChanged()
+    }
+    return presets.map(preset => preset.name)
+  }
+
+  /**
+   * Read and migrate a collection of presets
+   * @param data Parsed presets JSON
+   * @param source Where the presets came from, for error messages
+   * @throws ConfigValidationError if a preset is malformed or has invalid values
+   * @throws ConfigMigrationError if the presets can't be migrated
+   */
+  private readPresets(data: unknown, source: string): { presets: ConfigPreset<T>[]; version: number } {
+    if (!isRecord(data) || !Array.isArray(data.presets)) {
+      throw new ConfigValidationError('presets', data, 'Not a valid presets file')
+    }
+
+    const version = data.version ?? 0
+    if (!Number.isInteger(version)) {
+      throw new ConfigValidationError('version', version, 'Version must be a whole number')
+    }
+
+    const presets: ConfigPreset<T>[] = []
+    for (const entry of data.presets) {
+      if (!isRecord(entry) || typeof entry.name !== 'string' || !isRecord(entry.config)) {
+        throw new ConfigValidationError('presets', entry, 'Each preset needs a name and a config')
+      }
+      if (entry.extras !== undefined && !isRecord(entry.extras)) {
+        throw new ConfigValidationError('extras', entry.extras, 'Preset extras must be an object')
+      }
+
+      const name = validatePresetName(entry.name)
+      const values = this.migrate(
+        { version: version as number, config: entry.config },
+        source,
+        this.presetVersion,
+        this.presetMigrations
+      )
+
+      // Drop keys this config doesn't have, validate the rest
+      const config: Partial<T> = {}
+      for (const [key, value] of Object.entries(values)) {
+        if (Object.prototype.hasOwnProperty.call(this.defaults, key)) {
+          config[key as keyof T] = value as T[keyof T]
+        }
+      }
+      this.validate(config)
+
+      const preset: ConfigPreset<T> = { name, config }
+      if (entry.extras) {
+        preset.extras = entry.extras
+      }
+      presets.push(copyPreset(preset))
+    }
+
+    return { presets, version: version as number }
+  }
+
+  /**
+   * Store presets and notify listeners after a change
+   */
+  private presetsChanged(): void {
+    this.savePresetsToStorage()
+    this.emit('presetsChange', Array.from(this.presets.keys()))
+  }
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends keyof ConfigManagerEvents>(event: K, callback: ConfigManagerEvents[K]): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, new Set())
+    }
+    this.eventListeners.get(event)!.add(callback)
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends keyof ConfigManagerEvents>(event: K, callback: ConfigManagerEvents[K]): void {
+    this.eventListeners.get(event)?.delete(callback)
+  }
+
+  /**
+   * Emit an event
+   */
+  private emit<K extends keyof ConfigManagerEvents>(
+    event: K,
+    ...args: Parameters<ConfigManagerEvents[K]>
+  ): void {
+    const listeners = this.eventListeners.get(event)
+    if (listeners) {
+      listeners.forEach(callback => {
+        try {
+          (callback as (...args: Parameters<ConfigManagerEvents[K]>) => void)(...args)
+        } catch (error) {
+          console.error(`Error in ${event} event listener:`, error)
+        }
+      })
+    }
+  }
+
   /**
    * Save current config to localStorage
    */
@@ -289,7 +705,8 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
     if (!this.storageKey) return
 
     try {
-      const data = JSON.stringify(this.config)
+      const payload: PersistedConfig = { version: this.version, config: { ...this.config } as Record<string, unknown> }
+      const data = JSON.stringify(payload)
       localStorage.setItem(this.storageKey, data)
     } catch (error) {
       console.warn('Failed to save config to localStorage:', error)
@@ -302,29 +719,150 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
   private loadFromStorage(): void {
     if (!this.storageKey) return
 
+    let stored: PersistedConfig
     try {
       const data = localStorage.getItem(this.storageKey)
-      if (data) {
-        const parsed = JSON.parse(data) as Partial<T>
-        // Only apply valid values, ignore invalid ones
-        const validValues: Partial<T> = {}
-        for (const [key, value] of Object.entries(parsed)) {
-          const typedKey = key as keyof T
-          if (typedKey in this.defaults) {
-            try {
-              this.validate({ [typedKey]: value } as Partial<T>)
-              validValues[typedKey] = value as T[keyof T]
-            } catch {
-              // Skip invalid values
-              console.warn(`Ignoring invalid stored value for "${key}"`)
-            }
-          }
+      if (!data) return
+      stored = parsePersistedConfig(JSON.parse(data))
+    } catch (error) {
+      console.warn('Failed to load config from localStorage:', error)
+      return
+    }
+
+    let values: Record<string, unknown>
+    try {
+      values = this.migrate(stored, this.storageKey, this.version, this.migrations)
+    } catch (error) {
+      if (!(error instanceof ConfigMigrationError)) throw error
+      console.warn(error.message)
+      this.emit('migrationError', error)
+      return
+    }
+
+    // Only apply valid values, ignore invalid ones
+    const validValues: Partial<T> = {}
+    for (const [key, value] of Object.entries(values)) {
+      const typedKey = key as keyof T
+      if (Object.prototype.hasOwnProperty.call(this.defaults, typedKey)) {
+        try {
+          validateConfig({ [typedKey]: value } as Partial<T>, this.defaults, this.schema)
+          validValues[typedKey] = value as T[keyof T]
+        } catch (error) {
+          if (!(error instanceof ConfigValidationError)) throw error
+          // Skip invalid values
+          console.warn(`Ignoring invalid stored value for "${key}"`)
+          this.emit('invalidStoredValue', error)
         }
-        this.config = { ...this.defaults, ...validValues }
+      }
+    }
+
+    // Fall back to the defaults for fields that don't fit together
+    for (const rule of this.rules) {
+      try {
+        validateConfig(validValues, this.defaults, {}, [rule])
+      } catch (error) {
+        if (!(error instanceof ConfigValidationError)) throw error
+        console.warn(`Ignoring stored values for ${rule.fields.join(', ')}: ${rule.message}`)
+        for (const field of rule.fields) {
+          delete validValues[field as keyof T]
+        }
+        this.emit('invalidStoredValue', error)
+      }
+    }
+    this.config = { ...this.defaults, ...validValues }
+
+    // Store the upgraded config so it is only migrated once
+    if (stored.version !== this.version) {
+      this.saveToStorage()
+    }
+  }
+
+  /**
+   * Save presets to localStorage
+   */
+  private savePresetsToStorage(): void {
+    if (!this.presetStorageKey || this.presetStorageLocked) return
+
+    try {
+      localStorage.setItem(this.presetStorageKey, this.exportPresets())
+    } catch (error) {
+      console.warn('Failed to save presets to localStorage:', error)
+    }
+  }
+
+  /**
+   * Load presets from localStorage
+   */
+  private loadPresetsFromStorage(): void {
+    if (!this.presetStorageKey) return
+
+    let data: unknown
+    try {
+      const json = localStorage.getItem(this.presetStorageKey)
+      if (!json) return
+      data = JSON.parse(json)
+    } catch (error) {
+      console.warn('Failed to load presets from localStorage:', error)
+      return
+    }
+
+    try {
+      const { presets, version } = this.readPresets(data, this.presetStorageKey)
+      this.presets = new Map(presets.map((preset): [string, ConfigPreset<T>] => [preset.name, preset]))
+
+      // Store the upgraded presets so they are only migrated once
+      if (version !== this.presetVersion) {
+        this.savePresetsToStorage()
       }
     } catch (error) {
-      console.warn('Failed to load config from localStorage:', error)
+      if (error instanceof ConfigMigrationError) {
+        // Keep presets from a newer version until the user clears them
+        this.presetStorageLocked = true
+        console.warn(error.message)
+        this.emit('migrationError', error)
+      } else if (error instanceof ConfigValidationError) {
+        console.warn('Ignoring invalid stored presets:', error.message)
+        this.emit('invalidStoredValue', error)
+      } else {
+        throw error
+      }
+    }
+  }
+
+  /**
+   * Upgrade stored config to the current version
+   * @param stored Persisted config of any version
+   * @param source Where the config came from, for error messages
+   * @param currentVersion Version to upgrade to
+   * @param migrations Migrations keyed by the version they upgrade from
+   * @throws ConfigMigrationError if a migration is missing or fails
+   */
+  private migrate(
+    stored: PersistedConfig,
+    source: string,
+    currentVersion: number,
+    migrations: Record<number, ConfigMigration>
+  ): Record<string, unknown> {
+    if (stored.version > currentVersion) {
+      throw new ConfigMigrationError(source, stored.version, currentVersion, 'Config is newer than this version')
+    }
+
+    let values = stored.config
+    for (let version = stored.version; version < currentVersion; version++) {
+      const migration = migrations[version]
+      if (!migration) {
+        throw new ConfigMigrationError(source, stored.version, currentVersion, `No migration from version ${version}`)
+      }
+
+      try {
+        values = migration({ ...values })
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new ConfigMigrationError(source, stored.version, currentVersion, `Migration from version ${version} failed: ${reason}`)
+      }
     }
+
+    return values
   }
 
   /**
@@ -347,24 +885,111 @@ export class ConfigManager<T extends BaseVisualizationConfig = BaseVisualization
    */
   extend<U extends object>(
     additionalDefaults: U,
-    additionalSchema: ConfigSchema<U> = {} as ConfigSchema<U>
+    additionalSchema: ConfigSchema<U> = {} as ConfigSchema<U>,
+    additionalRules: CrossFieldRule<T & U>[] = []
   ): ConfigManager<T & U> {
-    return new ConfigManager(
+    return new ConfigManager<T & U>(
       { ...this.defaults, ...additionalDefaults },
-      { ...this.schema, ...additionalSchema } as ConfigSchema<T & U>
+      { ...this.schema, ...additionalSchema } as ConfigSchema<T & U>,
+      [...this.rules, ...additionalRules]
     )
   }
 }
 
+/**
+ * Validate config values against field rules, then against cross-field
+ * rules for the fields they change
+ * @param values Values to validate
+ * @param config Config the values will be applied to
+ * @param schema Field rules
+ * @param rules Cross-field rules
+ * @throws ConfigValidationError for the first rule that fails
+ */
+export function validateConfig<T extends object>(
+  values: Partial<T>,
+  config: T,
+  schema: ConfigSchema<T>,
+  rules: CrossFieldRule<T>[] = []
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    const fieldRules = schema[key as keyof T]
+    if (fieldRules) {
+      for (const rule of fieldRules) {
+        if (!rule.validate(value as T[keyof T])) {
+          throw new ConfigValidationError(key, value, rule.message)
+        }
+      }
+    }
+  }
+
+  const merged = { ...config, ...values }
+  for (const rule of rules) {
+    // Report the error on a changed field, so forms can show it there
+    const field = rule.fields.find(key => key in values)
+    if (field === undefined) continue
+
+    if (!rule.validate(merged)) {
+      throw new ConfigValidationError(field, merged[field as keyof T], rule.message)
+    }
+  }
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Trim a preset name
+ * @throws ConfigValidationError if the name is empty
+ */
+function validatePresetName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed) {
+    throw new ConfigValidationError('name', name, 'Preset name is required')
+  }
+  return trimmed
+}
+
+/**
+ * Deep copy a preset, so callers can't change stored presets
+ * (presets hold JSON data only)
+ */
+function copyPreset<T>(preset: ConfigPreset<T>): ConfigPreset<T> {
+  return JSON.parse(JSON.stringify(preset)) as ConfigPreset<T>
+}
+
+/**
+ * Read persisted data, treating a bare config object (written before
+ * versioning) as version 0
+ * @throws Error if the data is not an object
+ */
+function parsePersistedConfig(data: unknown): PersistedConfig {
+  if (!isRecord(data)) {
+    throw new Error('Stored config is not an object')
+  }
+
+  const { version, config } = data
+  if (Number.isInteger(version) && isRecord(config)) {
+    return { version: version as number, config }
+  }
+
+  return { version: 0, config: data }
+}
+
 /**
  * Create a config manager with defaults
  */
 export function createConfigManager<T extends BaseVisualizationConfig>(
   defaults: T,
-  schema?: ConfigSchema<T>
+  schema?: ConfigSchema<T>,
+  rules?: CrossFieldRule<T>[]
 ): ConfigManager<T> {
   return new ConfigManager(
     { ...DEFAULT_BASE_CONFIG, ...defaults },
-    schema
+    schema,
+    rules
   )
 }
@@ -15,6 +15,17 @@ import type {
   VisualizationMetadata,
 } from './types'
 import { DEFAULT_BASE_CONFIG } from './types'
+import type { ConfigSchema, ConfigFields, CrossFieldRule } from './ConfigManager'
+import { BASE_CONFIG_SCHEMA, BASE_CONFIG_FIELDS, validateConfig } from './ConfigManager'
+import { Canvas2DBatchRenderer, WebGLBatchRenderer } from './BatchRenderer'
+import type { BatchRenderer, RendererBackend } from './BatchRenderer'
+import { animate, Easing } from '../../utils/animation'
+import type { EasingFunction } from '../../utils/animation'
+
+/**
+ * Element count from which frames are drawn with WebGL when it is available
+ */
+export const WEBGL_RENDERER_THRESHOLD = 10_000
 
 type EventCallback<K extends keyof VisualizationEvents> = VisualizationEvents[K]
 
@@ -55,11 +66,33 @@ export abstract class Visualization<
   /** Animation frame request ID */
   protected animationFrameId: number | null = null
 
+  /** How long each step is shown during playback, in ms (0 until a controller sets it) */
+  protected stepDuration = 0
+
+  /** Cancels the running tween, null when no tween is running */
+  private tweenCancel: (() => void) | null = null
+
+  /** Draws a frame of the running tween */
+  private tweenFrame: ((progress: number) => void) | null = null
+
   /** Resize observer for responsive canvas */
   private resizeObserver: ResizeObserver | null = null
 
+  /** Renderer for the current frame's shapes, set by beginFrame() */
+  protected renderer: BatchRenderer | null = null
+
+  /** Renderer drawing shapes straight onto the 2D context */
+  private canvasRenderer: Canvas2DBatchRenderer | null = null
+
+  /** WebGL renderer for large frames; null if unavailable, undefined until first needed */
+  private webglRenderer: WebGLBatchRenderer | null | undefined = undefined
+
+  /**
+   * @throws ConfigValidationError if the config breaks a rule of getConfigSchema() or getCrossFieldRules()
+   */
   constructor(config?: Partial<TConfig>) {
     this.config = this.mergeConfig(config)
+    validateConfig(config ?? {}, this.config, this.getConfigSchema(), this.getCrossFieldRules())
   }
 
   /**
@@ -86,12 +119,30 @@ export abstract class Visualization<
    */
   abstract renderStep(step: AnimationStep<TStep>): void
 
+  /**
+   * Apply a step's changes without drawing them
+   * Used for all but the last of several steps run in one frame; defaults
+   * to renderStep(), override to skip drawing work.
+   * @param step The step to apply
+   */
+  protected applyStep(step: AnimationStep<TStep>): void {
+    this.renderStep(step)
+  }
+
   /**
    * Render the current state of the visualization
    * Called on each frame
    */
   abstract render(): void
 
+  /**
+   * Restore the visualization data to how it was after executing the
+   * first `stepIndex` steps of the animation queue (0 = before any step)
+   * Used for stepping backward and seeking; should not call render()
+   * @param stepIndex Number of steps considered executed
+   */
+  protected abstract restoreStep(stepIndex: number): void
+
   /**
    * Merge provided config with defaults
    * Override in subclasses to handle custom config
@@ -103,6 +154,30 @@ export abstract class Visualization<
     } as TConfig
   }
 
+  /**
+   * Get the validation rules for this visualization's config
+   * Override in subclasses that add config fields
+   */
+  getConfigSchema(): ConfigSchema<TConfig> {
+    return BASE_CONFIG_SCHEMA as ConfigSchema<TConfig>
+  }
+
+  /**
+   * Get the rules that check several config fields together
+   * Override in subclasses whose config fields depend on each other
+   */
+  getCrossFieldRules(): CrossFieldRule<TConfig>[] {
+    return []
+  }
+
+  /**
+   * Get display metadata for the config fields users may edit (see SettingsForm)
+   * Override in subclasses that add config fields
+   */
+  getConfigFields(): ConfigFields<TConfig> {
+    return BASE_CONFIG_FIELDS as ConfigFields<TConfig>
+  }
+
   /**
    * Create empty performance metrics
    */
@@ -193,15 +268,22 @@ export abstract class Visualization<
     if (this.state === 'playing') return
 
     if (this.state === 'idle' || this.state === 'completed') {
-      this.animationQueue = this.generateSteps()
-      this.currentStepIndex = 0
-      this.metrics = this.createEmptyMetrics()
-      this.metrics.startTime = performance.now()
+      this.prepareSteps()
     }
 
     this.setState('playing')
   }
 
+  /**
+   * Generate a fresh animation queue and reset playback position
+   */
+  protected prepareSteps(): void {
+    this.animationQueue = this.generateSteps()
+    this.currentStepIndex = 0
+    this.metrics = this.createEmptyMetrics()
+    this.metrics.startTime = performance.now()
+  }
+
   /**
    * Pause the visualization
    */
@@ -225,14 +307,79 @@ export abstract class Visualization<
     if (this.state === 'completed') return
 
     if (this.state === 'idle') {
-      this.animationQueue = this.generateSteps()
-      this.currentStepIndex = 0
-      this.metrics = this.createEmptyMetrics()
-      this.metrics.startTime = performance.now()
+      this.prepareSteps()
     }
 
     this.executeNextStep()
-    this.setState('paused')
+    if (this.getState() !== 'completed') {
+      this.setState('paused')
+    }
+  }
+
+  /**
+   * Execute a single step backward
+   */
+  stepBack(): void {
+    if (this.state === 'idle' || this.currentStepIndex === 0) return
+    this.seek(this.currentStepIndex - 1)
+  }
+
+  /**
+   * Jump to a position in the animation timeline
+   * Seeking pauses playback; seeking to the end completes the visualization
+   * @param stepIndex Number of steps to have executed (0 = start)
+   */
+  seek(stepIndex: number): void {
+    if (this.state === 'idle') {
+      this.prepareSteps()
+    }
+
+    const total = this.animationQueue.length
+    const target = Math.max(0, Math.min(total, Math.round(stepIndex)))
+
+    this.cancelAnimation()
+    this.restoreStep(target)
+    this.currentStepIndex = target
+    this.metrics.stepsExecuted = target
+    this.metrics.endTime = 0
+    this.render()
+
+    if (target >= total) {
+      this.onComplete()
+    } else {
+      this.setState('paused')
+    }
+
+    this.emit('seek', target, total)
+  }
+
+  /**
+   * Jump to the beginning of the animation timeline
+   */
+  seekToStart(): void {
+    this.seek(0)
+  }
+
+  /**
+   * Jump to the end of the animation timeline
+   */
+  seekToEnd(): void {
+    this.seek(Number.POSITIVE_INFINITY)
+  }
+
+  /**
+   * Get the number of steps executed so far
+   */
+  getCurrentStepIndex(): number {
+    return this.currentStepIndex
+  }
+
+  /**
+   * Get the total number of steps in the animation queue
+   * Returns 0 until steps have been generated
+   */
+  getTotalSteps(): number {
+    return this.animationQueue.length
   }
 
   /**
@@ -249,10 +396,78 @@ export abstract class Visualization<
     this.emit('reset')
   }
 
+  /**
+   * Set how long each step is shown, so tweens can take a share of it
+   * (called by AnimationController when the speed changes)
+   * @param delayMs Step delay in milliseconds
+   */
+  setStepDuration(delayMs: number): void {
+    this.stepDuration = Math.max(0, delayMs)
+  }
+
+  /**
+   * Whether a tween between steps is running
+   */
+  isTweening(): boolean {
+    return this.tweenCancel !== null
+  }
+
+  /**
+   * Cut the running tween short, drawing its final frame
+   */
+  finishTween(): void {
+    const frame = this.tweenFrame
+    if (!this.stopTween()) return
+    frame?.(1)
+    this.emit('tweenEnd')
+  }
+
+  /**
+   * Animate from the current step's start to its end state
+   * Any running tween is finished first.
+   * @param duration Tween length in milliseconds
+   * @param frame Draws the tween at an eased progress from 0 to 1
+   * @param easing Easing applied to the progress
+   */
+  protected runTween(
+    duration: number,
+    frame: (progress: number) => void,
+    easing: EasingFunction = Easing.easeInOutCubic
+  ): void {
+    this.finishTween()
+
+    this.tweenFrame = frame
+    this.tweenCancel = animate(progress => frame(progress), {
+      duration,
+      easing,
+      onComplete: () => {
+        this.tweenCancel = null
+        this.tweenFrame = null
+        this.emit('tweenEnd')
+      },
+    })
+  }
+
+  /**
+   * Stop the running tween without drawing its final frame
+   * @returns Whether a tween was running
+   */
+  private stopTween(): boolean {
+    if (!this.tweenCancel) return false
+    this.tweenCancel()
+    this.tweenCancel = null
+    this.tweenFrame = null
+    return true
+  }
+
   /**
    * Execute the next step in the animation queue
+   * A tween still running from the previous step is cut short first.
+   * @param draw Whether to draw the step (false applies it with applyStep())
    */
-  protected executeNextStep(): void {
+  protected executeNextStep(draw = true): void {
+    this.finishTween()
+
     if (this.currentStepIndex >= this.animationQueue.length) {
       this.onComplete()
       return
@@ -263,10 +478,15 @@ export abstract class Visualization<
       this.onComplete()
       return
     }
-    this.renderStep(step)
+    const index = this.currentStepIndex
+    if (draw) {
+      this.renderStep(step)
+    } else {
+      this.applyStep(step)
+    }
     this.metrics.stepsExecuted++
-    this.emit('stepComplete', step, this.currentStepIndex)
     this.currentStepIndex++
+    this.emit('stepComplete', step, index)
   }
 
   /**
@@ -274,15 +494,38 @@ export abstract class Visualization<
    * Returns true if there are more steps, false if completed
    */
   tick(): boolean {
-    if (this.state !== 'playing') return false
+    this.advance(1)
+    return this.state === 'playing'
+  }
 
-    if (this.currentStepIndex >= this.animationQueue.length) {
-      this.onComplete()
-      return false
+  /**
+   * Advance several steps while playing, drawing only the last one
+   * (called by AnimationController once per frame)
+   * @param count Number of steps to run
+   * @returns Number of steps executed
+   */
+  advance(count: number): number {
+    let executed = 0
+    let drawn = true
+
+    while (executed < count && this.state === 'playing') {
+      if (this.currentStepIndex >= this.animationQueue.length) {
+        this.onComplete()
+        break
+      }
+
+      drawn = executed === count - 1 || this.currentStepIndex === this.animationQueue.length - 1
+      this.executeNextStep(drawn)
+      executed++
     }
 
-    this.executeNextStep()
-    return this.state === 'playing'
+    // A listener stopped playback partway through; draw where it stopped
+    if (!drawn) {
+      this.restoreStep(this.currentStepIndex)
+      this.render()
+    }
+
+    return executed
   }
 
   /**
@@ -295,9 +538,10 @@ export abstract class Visualization<
   }
 
   /**
-   * Cancel any pending animation
+   * Cancel any pending animation, including a running tween
    */
   protected cancelAnimation(): void {
+    this.stopTween()
     if (this.animationFrameId !== null) {
       cancelAnimationFrame(this.animationFrameId)
       this.animationFrameId = null
@@ -336,8 +580,10 @@ export abstract class Visualization<
 
   /**
    * Update configuration
+   * @throws ConfigValidationError if the new values break a rule; the config is left unchanged
    */
   updateConfig(config: Partial<TConfig>): void {
+    validateConfig(config, this.config, this.getConfigSchema(), this.getCrossFieldRules())
     this.config = this.mergeConfig({ ...this.config, ...config })
 
     // Update canvas style dimensions if they changed
@@ -351,7 +597,8 @@ export abstract class Visualization<
       this.resizeCanvas()
     }
 
-    if (this.state === 'idle') {
+    // While playing, the next step redraws with the new config
+    if (this.state !== 'playing') {
       this.render()
     }
   }
@@ -412,6 +659,84 @@ export abstract class Visualization<
     }
   }
 
+  /**
+   * Number of elements drawn each frame, used to pick the renderer
+   * Override in subclasses that draw through beginFrame()
+   */
+  protected getElementCount(): number {
+    return 0
+  }
+
+  /**
+   * Backend of the renderer used for the last frame, null before the first
+   */
+  getRendererBackend(): RendererBackend | null {
+    return this.renderer?.backend ?? null
+  }
+
+  /**
+   * Pick the renderer for the next frame: WebGL from WEBGL_RENDERER_THRESHOLD
+   * elements, falling back to the 2D canvas when WebGL is unavailable or lost
+   */
+  private selectRenderer(ctx: CanvasRenderingContext2D): BatchRenderer {
+    if (this.getElementCount() >= WEBGL_RENDERER_THRESHOLD) {
+      if (this.webglRenderer === undefined) {
+        this.webglRenderer = WebGLBatchRenderer.create(ctx)
+        if (!this.webglRenderer) {
+          console.warn('WebGL is unavailable; drawing with the 2D canvas')
+        }
+      }
+      if (this.webglRenderer && !this.webglRenderer.isContextLost()) {
+        return this.webglRenderer
+      }
+    }
+
+    if (!this.canvasRenderer) {
+      this.canvasRenderer = new Canvas2DBatchRenderer(ctx)
+    }
+    return this.canvasRenderer
+  }
+
+  /**
+   * Start a frame drawn through a batch renderer: clears the canvas and
+   * returns the renderer to add fills to (null without a canvas)
+   * Finish the frame with endFrame(), which also fills the background.
+   */
+  protected beginFrame(): BatchRenderer | null {
+    if (!this.ctx) return null
+
+    this.renderer = this.selectRenderer(this.ctx)
+    const { width, height } = this.getCanvasDimensions()
+    this.clearCanvas()
+    this.renderer.begin(width, height, window.devicePixelRatio || 1)
+    return this.renderer
+  }
+
+  /**
+   * Finish a frame started with beginFrame(), drawing the renderer's
+   * shapes and then the background behind everything
+   */
+  protected endFrame(): void {
+    if (!this.ctx) return
+
+    this.renderer?.flush()
+    this.ctx.save()
+    this.ctx.globalCompositeOperation = 'destination-over'
+    this.fillBackground()
+    this.ctx.restore()
+  }
+
+  /**
+   * Release the batch renderers
+   */
+  private destroyRenderers(): void {
+    this.canvasRenderer?.destroy()
+    this.webglRenderer?.destroy()
+    this.canvasRenderer = null
+    this.webglRenderer = undefined
+    this.renderer = null
+  }
+
   /**
    * Clear the canvas
    */
@@ -438,6 +763,7 @@ export abstract class Visualization<
     this.cancelAnimation()
     this.resizeObserver?.disconnect()
     this.eventListeners.clear()
+    this.destroyRenderers()
 
     if (this.canvas && this.container) {
       this.container.removeChild(this.canvas)
@@ -2,7 +2,9 @@
  * Registry for auto-discovery and management of visualizations
  *
  * Visualizations register themselves with this registry, allowing the
- * application to dynamically discover and instantiate them.
+ * application to dynamically discover and instantiate them. Lazy
+ * registrations carry only metadata up front; the implementation is
+ * fetched the first time the visualization is loaded.
  */
 
 import type { Visualization } from './Visualization'
@@ -15,12 +17,20 @@ export type VisualizationFactory<
   T extends Visualization = Visualization
 > = (config?: Partial<BaseVisualizationConfig>) => T
 
+/**
+ * Loader that fetches a visualization's implementation (typically via dynamic import)
+ */
+export type VisualizationLoader = () => Promise<VisualizationFactory>
+
 /**
  * Registration entry combining metadata with factory
  */
 export interface VisualizationRegistration {
   metadata: VisualizationMetadata
-  factory: VisualizationFactory
+  /** Factory, or null until a lazy registration has been loaded */
+  factory: VisualizationFactory | null
+  /** Fetches the factory of a lazy registration */
+  loader?: VisualizationLoader
 }
 
 /**
@@ -44,6 +54,7 @@ export interface VisualizationFilter {
  */
 class VisualizationRegistryImpl {
   private registrations: Map<string, VisualizationRegistration> = new Map()
+  private pendingLoads: Map<string, Promise<VisualizationFactory>> = new Map()
   private listeners: Set<(registrations: VisualizationRegistration[]) => void> = new Set()
 
   /**
@@ -52,19 +63,92 @@ class VisualizationRegistryImpl {
    * @param factory Factory function to create instances
    */
   register(metadata: VisualizationMetadata, factory: VisualizationFactory): void {
+    const existing = this.registrations.get(metadata.id)
+
+    // A lazily registered module registering itself on load is expected
+    if (existing && !(existing.loader && !existing.factory)) {
+      console.warn(`Visualization "${metadata.id}" is already registered. Overwriting.`)
+    }
+
+    this.registrations.set(metadata.id, { metadata, factory, loader: existing?.loader })
+    this.notifyListeners()
+  }
+
+  /**
+   * Register a visualization whose implementation is loaded on demand
+   * The metadata is available immediately (e.g., for the gallery); the
+   * loader runs the first time load() or createAsync() is called.
+   * @param metadata Visualization metadata
+   * @param loader Function that fetches the factory
+   *
+   * @example
+   * ```typescript
+   * VisualizationRegistry.registerLazy(metadata, async () => {
+   *   const { SortingVisualizer } = await import('../sorting')
+   *   return (config) => new SortingVisualizer(config)
+   * })
+   * ```
+   */
+  registerLazy(metadata: VisualizationMetadata, loader: VisualizationLoader): void {
     if (this.registrations.has(metadata.id)) {
       console.warn(`Visualization "${metadata.id}" is already registered. Overwriting.`)
     }
 
-    this.registrations.set(metadata.id, { metadata, factory })
+    this.registrations.set(metadata.id, { metadata, factory: null, loader })
     this.notifyListeners()
   }
 
+  /**
+   * Load the implementation of a visualization
+   * Concurrent calls share one load; a failed load can be retried.
+   * @param id Visualization ID
+   * @throws Error if the visualization is not registered or fails to load
+   */
+  async load(id: string): Promise<VisualizationFactory> {
+    const registration = this.registrations.get(id)
+    if (!registration) {
+      throw new Error(`Visualization "${id}" not found in registry`)
+    }
+    if (registration.factory) {
+      return registration.factory
+    }
+    if (!registration.loader) {
+      throw new Error(`Visualization "${id}" has no factory or loader`)
+    }
+
+    let pending = this.pendingLoads.get(id)
+    if (!pending) {
+      pending = registration.loader()
+      this.pendingLoads.set(id, pending)
+    }
+
+    try {
+      const factory = await pending
+      const current = this.registrations.get(id)
+      if (current && !current.factory) {
+        current.factory = factory
+        this.notifyListeners()
+      }
+      return factory
+    } finally {
+      this.pendingLoads.delete(id)
+    }
+  }
+
+  /**
+   * Check if a visualization's implementation is available
+   * @param id Visualization ID
+   */
+  isLoaded(id: string): boolean {
+    return !!this.registrations.get(id)?.factory
+  }
+
   /**
    * Unregister a visualization
    * @param id Visualization ID
    */
   unregister(id: string): boolean {
+    this.pendingLoads.delete(id)
     const deleted = this.registrations.delete(id)
     if (deleted) {
       this.notifyListeners()
@@ -82,6 +166,7 @@ class VisualizationRegistryImpl {
 
   /**
    * Create an instance of a visualization
+   * Lazy registrations must be loaded first (see createAsync).
    * @param id Visualization ID
    * @param config Optional configuration
    */
@@ -94,9 +179,27 @@ class VisualizationRegistryImpl {
       console.error(`Visualization "${id}" not found in registry`)
       return null
     }
+    if (!registration.factory) {
+      console.error(`Visualization "${id}" is not loaded yet`)
+      return null
+    }
     return registration.factory(config) as T
   }
 
+  /**
+   * Load a visualization if needed and create an instance
+   * @param id Visualization ID
+   * @param config Optional configuration
+   * @throws Error if the visualization is not registered or fails to load
+   */
+  async createAsync<T extends Visualization = Visualization>(
+    id: string,
+    config?: Partial<BaseVisualizationConfig>
+  ): Promise<T> {
+    const factory = await this.load(id)
+    return factory(config) as T
+  }
+
   /**
    * Get all registered visualizations
    */
@@ -253,6 +356,7 @@ class VisualizationRegistryImpl {
    */
   clear(): void {
     this.registrations.clear()
+    this.pendingLoads.clear()
     this.notifyListeners()
   }
 }
@@ -6,16 +6,26 @@
  * - VisualizationRegistry: Auto-discovery system for visualizations
  * - AnimationController: Playback control for visualizations
  * - ConfigManager: Type-safe configuration management
+ * - Batch renderers: 2D canvas and WebGL backends for drawing many shapes per frame
  */
 
 // Base class
-export { Visualization } from './Visualization'
+export { Visualization, WEBGL_RENDERER_THRESHOLD } from './Visualization'
+
+// Batch renderers
+export {
+  Canvas2DBatchRenderer,
+  WebGLBatchRenderer,
+  type BatchRenderer,
+  type RendererBackend,
+} from './BatchRenderer'
 
 // Registry
 export {
   VisualizationRegistry,
   registerVisualization,
   type VisualizationFactory,
+  type VisualizationLoader,
   type VisualizationRegistration,
   type VisualizationFilter,
 } from './VisualizationRegistry'
@@ -30,10 +40,22 @@ export {
 export {
   ConfigManager,
   ConfigValidationError,
+  ConfigMigrationError,
   createConfigManager,
+  validateConfig,
   BASE_CONFIG_SCHEMA,
+  BASE_CONFIG_FIELDS,
   type ValidationRule,
   type ConfigSchema,
+  type CrossFieldRule,
+  type ConfigField,
+  type ConfigFieldControl,
+  type ConfigFields,
+  type ConfigMigration,
+  type ConfigManagerEvents,
+  type PersistenceOptions,
+  type ConfigPreset,
+  type SavePresetOptions,
 } from './ConfigManager'
 
 // Types
@@ -34,6 +34,8 @@ export interface VisualizationMetadata {
   tags?: string[]
   /** Difficulty/complexity indicator (1-5) */
   difficulty?: number
+  /** Route of a dedicated page (defaults to the generic /viz/:category/:id page) */
+  path?: string
 }
 
 /**
@@ -83,8 +85,12 @@ export interface VisualizationEvents {
   stepComplete: (step: AnimationStep, index: number) => void
   /** Fired when all animation steps complete */
   complete: (metrics: PerformanceMetrics) => void
+  /** Fired when the timeline position is changed by seeking */
+  seek: (stepIndex: number, totalSteps: number) => void
   /** Fired when visualization is reset */
   reset: () => void
+  /** Fired when a tween between steps ends, whether it ran to the end or was cut short */
+  tweenEnd: () => void
   /** Fired on error */
   error: (error: Error) => void
 }
@@ -94,11 +100,14 @@ export interface VisualizationEvents {
  */
 export interface SpeedPreset {
   name: string
+  /** Time per step in ms; below a frame's length, several steps run each frame */
   delayMs: number
 }
 
 /**
- * Default speed presets
+ * Default speed presets, from 0.5 to 200,000 steps per second
+ * Saved presets and links refer to speeds by name and the control panel by index,
+ * so existing speeds keep their name and place; new speeds go at the end.
  */
 export const DEFAULT_SPEED_PRESETS: SpeedPreset[] = [
   { name: 'Slow', delayMs: 200 },
@@ -106,6 +115,9 @@ export const DEFAULT_SPEED_PRESETS: SpeedPreset[] = [
   { name: 'Fast', delayMs: 50 },
   { name: 'Very Fast', delayMs: 20 },
   { name: 'Instant', delayMs: 1 },
+  { name: 'Very Slow', delayMs: 2000 },
+  { name: 'Blazing', delayMs: 0.05 },
+  { name: 'Maximum', delayMs: 0.005 },
 ]
 
 /**
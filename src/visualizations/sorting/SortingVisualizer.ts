@@ -1,34 +1,113 @@
 /**
  * Sorting Visualizer
  *
- * A visualization for sorting algorithms that displays an array as vertical
- * bars and animates the sorting process step by step.
+ * A visualization for sorting algorithms that displays an array through a
+ * selectable view (vertical bars by default) and animates the sorting
+ * process step by step.
  */
 
 import { Visualization } from '../core/Visualization'
 import type { VisualizationMetadata } from '../core/types'
+import type { BatchRenderer } from '../core/BatchRenderer'
+import type { ConfigSchema, ConfigFields, CrossFieldRule } from '../core/ConfigManager'
+import { ConfigValidationError } from '../core/ConfigManager'
 import type {
   SortingConfig,
   SortingStep,
   SortingStepData,
   SortingAlgorithm,
+  SortingOptions,
+  SortingOptionsSchema,
+  SortingKeyframe,
+  SortingState,
   Bar,
-  BarState,
+  AuxBar,
+  AuxBarState,
 } from './types'
-import { DEFAULT_SORTING_CONFIG } from './types'
-import { BubbleSort, SORTING_ALGORITHMS } from './algorithms'
+import {
+  DEFAULT_SORTING_CONFIG,
+  SORTING_CONFIG_SCHEMA,
+  SORTING_CONFIG_RULES,
+  SORTING_CONFIG_FIELDS,
+} from './types'
+import { BubbleSort, SORTING_ALGORITHMS, getMaxArraySize } from './algorithms'
+import { applySortingStep, buildKeyframes, countSortingStep, KEYFRAME_INTERVAL } from './steps'
+import { resolveSortingOptions } from './options'
+import { generateArray } from './distributions'
+import {
+  SORTING_VIEWS,
+  BAR_STATE_COLORS,
+  getSortedPositions,
+  distanceFromSorted,
+  getBarSlot,
+  drawBar,
+} from './views'
+import type { SortingViewBar } from './views'
 import { VIZ_COLORS } from '../../utils/colors'
+import { lerp } from '../../utils/animation'
+
+/**
+ * Schema used for algorithms that take no options
+ */
+const NO_OPTIONS: SortingOptionsSchema = { defaults: {}, fields: {} }
+
+/**
+ * Describe the largest array an algorithm runs on
+ */
+function describeSizeLimit(algorithm: SortingAlgorithm, options: SortingOptions): string {
+  return `${algorithm.info.name} runs on arrays of up to ${getMaxArraySize(algorithm, options)} elements`
+}
+
+/**
+ * Check that an array fits an algorithm
+ * Every step is generated before playback, so larger arrays are refused up front.
+ * @throws ConfigValidationError if the array is larger than the algorithm runs on
+ */
+function checkArraySize(size: number, algorithm: SortingAlgorithm, options: SortingOptions): void {
+  if (size > getMaxArraySize(algorithm, options)) {
+    throw new ConfigValidationError('arraySize', size, describeSizeLimit(algorithm, options))
+  }
+}
+
+/**
+ * Color mapping for auxiliary bar states
+ */
+const AUX_BAR_COLORS: Record<AuxBarState, string> = {
+  default: '#475569',
+  reading: VIZ_COLORS.barActive,
+  writing: '#f59e0b',
+}
+
+/**
+ * Share of the drawable height given to the auxiliary lane when shown
+ */
+const AUX_LANE_RATIO = 0.35
+
+/**
+ * Share of the drawable width given to the heap tree layer when shown
+ */
+const HEAP_TREE_RATIO = 0.4
+
+/**
+ * Largest array whose heap is drawn as a tree; bigger trees are unreadable
+ */
+const MAX_HEAP_TREE_SIZE = 1023
 
 /**
- * Color mapping for bar states
+ * Tweens shorter than this are skipped, as they would last about one frame
  */
-const BAR_COLORS: Record<BarState, string> = {
-  default: VIZ_COLORS.barDefault,
-  comparing: VIZ_COLORS.barActive,
-  swapping: '#f59e0b',
-  sorted: VIZ_COLORS.barSorted,
-  pivot: VIZ_COLORS.barPivot,
-  range: '#8b5cf6',
+const MIN_TWEEN_MS = 20
+
+/**
+ * Bars in motion while a step is tweened
+ */
+interface BarTween {
+  /** Start index of each moving bar, by its destination index */
+  from: Map<number, number>
+  /** Value each resized bar starts from, by index */
+  values: Map<number, number>
+  /** Eased progress from 0 to 1 */
+  progress: number
 }
 
 /**
@@ -44,12 +123,42 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
   /** Indices that are sorted */
   private sortedIndices: Set<number> = new Set()
 
+  /** Auxiliary (scratch) array values, null where empty */
+  private auxArray: (number | null)[] = []
+
+  /** Current auxiliary bar states for rendering */
+  private auxBars: AuxBar[] = []
+
+  /** Size of the heap region at the start of the array, null if no heap */
+  private heapSize: number | null = null
+
+  /** Buckets used by distribution sorts */
+  private buckets: number[][] = []
+
+  /** Bucket highlighted by the current step */
+  private bucketHighlight: { bucket: number; state: AuxBarState } | null = null
+
+  /** Bars in motion for the current step, null when bars are at rest */
+  private tween: BarTween | null = null
+
+  /** Snapshots of the state taken periodically along the current steps */
+  private keyframes: SortingKeyframe[] = []
+
   /** Currently active algorithm */
   private algorithm: SortingAlgorithm = BubbleSort
 
+  /** Validated options passed to the active algorithm */
+  private algorithmOptions: SortingOptions = {}
+
+  /** Array set through setArray(), kept across resets until a new array is generated */
+  private customArray: number[] | null = null
+
   /** Max value in array (for scaling) */
   private maxValue: number = 100
 
+  /** Index range each value occupies once sorted, for disparity */
+  private sortedPositions: Map<number, [number, number]> = new Map()
+
   constructor(config?: Partial<SortingConfig>) {
     super(config)
   }
@@ -64,6 +173,42 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
     }
   }
 
+  /**
+   * Get the validation rules for sorting config
+   */
+  getConfigSchema(): ConfigSchema<SortingConfig> {
+    return SORTING_CONFIG_SCHEMA
+  }
+
+  /**
+   * Get the sorting config rules that span several fields (e.g., minValue <= maxValue),
+   * plus the current algorithm's array size limit
+   */
+  getCrossFieldRules(): CrossFieldRule<SortingConfig>[] {
+    // The base constructor validates the config before the algorithm is set,
+    // so it is checked against the default algorithm
+    const getAlgorithm = (): SortingAlgorithm => this.algorithm ?? BubbleSort
+    const getOptions = (): SortingOptions => this.algorithmOptions ?? {}
+
+    return [
+      ...SORTING_CONFIG_RULES,
+      {
+        fields: ['arraySize'],
+        validate: (config) => config.arraySize <= getMaxArraySize(getAlgorithm(), getOptions()),
+        get message() {
+          return describeSizeLimit(getAlgorithm(), getOptions())
+        },
+      },
+    ]
+  }
+
+  /**
+   * Get the editable sorting display settings
+   */
+  getConfigFields(): ConfigFields<SortingConfig> {
+    return SORTING_CONFIG_FIELDS
+  }
+
   /**
    * Get metadata for this visualization
    */
@@ -79,38 +224,48 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
   }
 
   /**
-   * Initialize the visualization with a random array
+   * Initialize the visualization with the custom array if one is set,
+   * otherwise with a freshly generated one
    */
   initialize(): void {
-    this.generateRandomArray()
-    this.sortedIndices.clear()
+    if (this.customArray) {
+      this.array = [...this.customArray]
+    } else {
+      const { distribution, arraySize, minValue, maxValue, seed } = this.config
+      this.array = generateArray(distribution, arraySize, minValue, maxValue, seed)
+    }
+    // Reduce rather than spread, which overflows the argument limit for large arrays
+    this.maxValue = this.array.reduce((max, value) => Math.max(max, value), -Infinity)
+    this.sortedPositions = getSortedPositions(this.array)
+    this.clearStepState()
     this.updateBars()
   }
 
   /**
-   * Generate a random array
+   * Generate a new array using the configured input distribution
+   * (replaces any custom array and resets playback)
    */
   generateRandomArray(): void {
-    const { arraySize, minValue, maxValue } = this.config
-    this.array = Array.from(
-      { length: arraySize },
-      () => Math.floor(Math.random() * (maxValue - minValue + 1)) + minValue
-    )
-    this.maxValue = Math.max(...this.array)
-    this.sortedIndices.clear()
-    this.updateBars()
-    this.render()
+    this.customArray = null
+    this.reset()
   }
 
   /**
-   * Set a specific array
+   * Set a specific array and reset playback
+   * The array is kept across resets until a new array is generated
+   * @throws ConfigValidationError if the array is larger than the current algorithm runs on
    */
   setArray(array: number[]): void {
-    this.array = [...array]
-    this.maxValue = Math.max(...this.array)
-    this.sortedIndices.clear()
-    this.updateBars()
-    this.render()
+    checkArraySize(array.length, this.algorithm, this.algorithmOptions)
+    this.customArray = [...array]
+    this.reset()
+  }
+
+  /**
+   * Get the array set through setArray(), or null if the array is generated
+   */
+  getCustomArray(): number[] | null {
+    return this.customArray ? [...this.customArray] : null
   }
 
   /**
@@ -122,23 +277,66 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
 
   /**
    * Set the sorting algorithm
+   * @param algorithm The algorithm to use
+   * @param options Algorithm options (missing values use the algorithm's defaults)
+   * @throws ConfigValidationError if an option is unknown or invalid, or the array is
+   *   larger than the algorithm runs on
    */
-  setAlgorithm(algorithm: SortingAlgorithm): void {
+  setAlgorithm(algorithm: SortingAlgorithm, options: SortingOptions = {}): void {
+    const resolved = resolveSortingOptions(algorithm.info.options ?? NO_OPTIONS, options)
+    this.checkArraySizes(algorithm, resolved)
+    this.algorithmOptions = resolved
     this.algorithm = algorithm
   }
 
   /**
    * Set algorithm by ID
+   * @throws ConfigValidationError if an option is unknown or invalid, or the array is
+   *   larger than the algorithm runs on
    */
-  setAlgorithmById(id: string): boolean {
+  setAlgorithmById(id: string, options: SortingOptions = {}): boolean {
     const algo = SORTING_ALGORITHMS.find(a => a.info.id === id)
     if (algo) {
-      this.algorithm = algo
+      this.setAlgorithm(algo, options)
       return true
     }
     return false
   }
 
+  /**
+   * Update options of the current algorithm
+   * Takes effect the next time steps are generated (e.g. after reset())
+   * @param options Option values to change
+   * @throws ConfigValidationError if an option is unknown or invalid, or the array is
+   *   larger than the algorithm runs on with the new options
+   */
+  setAlgorithmOptions(options: SortingOptions): void {
+    const resolved = resolveSortingOptions(this.algorithm.info.options ?? NO_OPTIONS, {
+      ...this.algorithmOptions,
+      ...options,
+    })
+    this.checkArraySizes(this.algorithm, resolved)
+    this.algorithmOptions = resolved
+  }
+
+  /**
+   * Check that the configured and custom arrays fit an algorithm
+   * @throws ConfigValidationError if either array is larger than the algorithm runs on
+   */
+  private checkArraySizes(algorithm: SortingAlgorithm, options: SortingOptions): void {
+    checkArraySize(this.config.arraySize, algorithm, options)
+    if (this.customArray) {
+      checkArraySize(this.customArray.length, algorithm, options)
+    }
+  }
+
+  /**
+   * Get the options of the current algorithm
+   */
+  getAlgorithmOptions(): SortingOptions {
+    return { ...this.algorithmOptions }
+  }
+
   /**
    * Get current algorithm
    */
@@ -155,62 +353,147 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
 
   /**
    * Generate animation steps using the current algorithm
+   * (the setters refuse arrays larger than the algorithm runs on)
    */
   generateSteps(): SortingStep[] {
-    const result = this.algorithm.sort(this.array)
+    const result = this.algorithm.sort(this.array, this.algorithmOptions)
+    // Space keyframes at least an array length apart so their copies take
+    // no more memory than the steps themselves
+    this.keyframes = buildKeyframes(this.array, result.steps, Math.max(KEYFRAME_INTERVAL, this.array.length))
     return result.steps
   }
 
+  /**
+   * Restore array, sorted set, bar highlights and metrics as they were
+   * after the given number of steps
+   */
+  protected restoreStep(stepIndex: number): void {
+    // Start from the nearest keyframe and replay deltas up to the target
+    let keyframe = this.keyframes[0]
+    for (const candidate of this.keyframes) {
+      if (candidate.stepIndex > stepIndex) break
+      keyframe = candidate
+    }
+    if (!keyframe) return
+
+    this.metrics = {
+      ...this.createEmptyMetrics(),
+      ...keyframe.counts,
+      startTime: this.metrics.startTime,
+    }
+    this.array = [...keyframe.array]
+    this.sortedIndices = new Set(keyframe.sorted)
+    this.auxArray = [...keyframe.aux]
+    this.heapSize = keyframe.heapSize
+    this.buckets = keyframe.buckets.map(bucket => [...bucket])
+    for (let i = keyframe.stepIndex; i < stepIndex; i++) {
+      const step = this.animationQueue[i]
+      if (step) {
+        countSortingStep(this.metrics, step)
+        this.applyStepData(step.data)
+      }
+    }
+
+    const step = this.animationQueue[stepIndex - 1]
+    if (step) {
+      this.updateBarsFromStep(step)
+    } else {
+      this.updateBars()
+    }
+  }
+
   /**
    * Render a single animation step
    */
   renderStep(step: SortingStep): void {
-    const { action, data } = step
+    const { data } = step
+    const previousValue = data.setting ? this.array[data.setting.index] : undefined
 
     // Update metrics based on step action
-    this.updateMetricsFromStep(action, data)
-
-    // Update array state
-    this.array = [...data.array]
+    countSortingStep(this.metrics, step)
 
-    // Update sorted indices
-    if (data.sorted) {
-      this.sortedIndices = new Set(data.sorted)
-    }
+    // Apply the step's changes to the sorting state
+    this.applyStepData(data)
 
     // Update bar states based on step action
     this.updateBarsFromStep(step)
 
-    // Render the current state
-    this.render()
+    // Move changed bars into place, or draw the new state straight away
+    this.startBarTween(step, previousValue)
   }
 
   /**
-   * Update performance metrics based on step action
+   * Apply a step without drawing it (steps skipped within a frame)
+   * Bar highlights are left alone; the frame's last step sets them.
    */
-  private updateMetricsFromStep(action: string, data: SortingStepData): void {
-    switch (action) {
-      case 'compare':
-        this.metrics.comparisons++
-        // Reading 2 elements to compare
-        this.metrics.arrayAccesses += 2
-        break
+  protected applyStep(step: SortingStep): void {
+    countSortingStep(this.metrics, step)
+    this.applyStepData(step.data)
+  }
 
-      case 'swap':
-        this.metrics.swaps++
-        // Reading 2 elements and writing 2 elements
-        this.metrics.arrayAccesses += 4
-        break
+  /**
+   * Tween swapped bars to their new positions and set bars to their new
+   * values over a share of the step delay
+   * @param step Step that was just applied
+   * @param previousValue Value at the set index before the step
+   */
+  private startBarTween(step: SortingStep, previousValue: number | undefined): void {
+    const duration = this.stepDuration * this.config.tweenFraction
+    const tween: BarTween = { from: new Map(), values: new Map(), progress: 0 }
+    const { swapping, setting } = step.data
+
+    if (step.action === 'swap' && swapping && swapping[0] !== swapping[1]) {
+      const [i, j] = swapping
+      tween.from.set(i, j)
+      tween.from.set(j, i)
+    }
+    if (setting && previousValue !== undefined && previousValue !== setting.value) {
+      tween.values.set(setting.index, previousValue)
+    }
 
-      case 'set':
-        // Writing 1 element
-        this.metrics.arrayAccesses++
-        if (data.setting) {
-          // Reading 1 element (the value being set)
-          this.metrics.arrayAccesses++
-        }
-        break
+    if (duration < MIN_TWEEN_MS || (tween.from.size === 0 && tween.values.size === 0)) {
+      this.render()
+      return
     }
+
+    this.runTween(duration, progress => {
+      // Ignore frames of a tween that was replaced or cancelled
+      if (this.tween !== tween) return
+      tween.progress = progress
+      if (progress >= 1) {
+        this.tween = null
+      }
+      this.render()
+    })
+    this.tween = tween
+    this.render()
+  }
+
+  /**
+   * Apply a step's changes to the visualizer's sorting state
+   */
+  private applyStepData(data: SortingStepData): void {
+    const state: SortingState = {
+      array: this.array,
+      sorted: this.sortedIndices,
+      aux: this.auxArray,
+      heapSize: this.heapSize,
+      buckets: this.buckets,
+    }
+    applySortingStep(state, data)
+    this.heapSize = state.heapSize
+    this.buckets = state.buckets
+  }
+
+  /**
+   * Clear everything steps have added on top of the array
+   */
+  private clearStepState(): void {
+    this.sortedIndices.clear()
+    this.auxArray = []
+    this.heapSize = null
+    this.buckets = []
+    this.bucketHighlight = null
   }
 
   /**
@@ -277,13 +560,59 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
       case 'clear-marks':
         // Already reset above
         break
+
+      case 'bucket-collect':
+        if (data.setting) {
+          const bar = this.bars[data.setting.index]
+          if (bar) bar.state = 'swapping'
+        }
+        break
+
+      case 'aux-write':
+      case 'aux-compare':
+      case 'aux-clear':
+      case 'bucket-init':
+      case 'bucket-distribute':
+        // Secondary lane highlights are applied below
+        break
+    }
+
+    // Highlight main array reads (e.g. values copied into the aux array)
+    if (data.reading) {
+      for (const index of data.reading) {
+        const bar = this.bars[index]
+        if (bar) bar.state = 'comparing'
+      }
     }
 
-    // Pivot takes precedence over range
-    if (data.pivot !== undefined) {
-      const pivotBar = this.bars[data.pivot]
+    // Pivots take precedence over range
+    for (const pivot of [data.pivot, data.secondPivot]) {
+      if (pivot === undefined) continue
+      const pivotBar = this.bars[pivot]
       if (pivotBar) pivotBar.state = 'pivot'
     }
+
+    // Auxiliary lane highlights
+    this.updateAuxBars()
+    if (data.auxReading) {
+      for (const index of data.auxReading) {
+        const bar = this.auxBars[index]
+        if (bar) bar.state = 'reading'
+      }
+    }
+    if (data.auxSetting) {
+      const bar = this.auxBars[data.auxSetting.index]
+      if (bar) bar.state = 'writing'
+    }
+
+    // Bucket highlights
+    if (data.bucketPush) {
+      this.bucketHighlight = { bucket: data.bucketPush.bucket, state: 'writing' }
+    } else if (data.bucketPop !== undefined) {
+      this.bucketHighlight = { bucket: data.bucketPop, state: 'reading' }
+    } else {
+      this.bucketHighlight = null
+    }
   }
 
   /**
@@ -294,61 +623,297 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
       value,
       state: this.sortedIndices.has(index) ? 'sorted' : 'default',
     }))
+    this.updateAuxBars()
+    this.bucketHighlight = null
+  }
+
+  /**
+   * Update auxiliary bars from current aux array state
+   */
+  private updateAuxBars(): void {
+    this.auxBars = this.auxArray.map(value =>
+      value === null ? null : { value, state: 'default' }
+    )
+  }
+
+  /**
+   * Whether the heap tree layer should be drawn
+   */
+  private showsHeapTree(): boolean {
+    if (!this.config.showHeapTree || this.array.length > MAX_HEAP_TREE_SIZE) return false
+    return !!this.algorithm.info.usesHeap || this.heapSize !== null
+  }
+
+  /**
+   * Which secondary lane (if any) should be drawn beneath the main bars
+   */
+  private getSecondaryLane(): 'aux' | 'buckets' | null {
+    const { info } = this.algorithm
+    if (info.usesBuckets || this.buckets.length > 0) return 'buckets'
+    if (info.usesAuxiliaryArray || this.auxArray.some(v => v !== null)) return 'aux'
+    return null
+  }
+
+  /**
+   * Number of elements drawn each frame (large arrays are drawn with WebGL)
+   */
+  protected getElementCount(): number {
+    return this.array.length
   }
 
   /**
    * Render the current visualization state
    */
   render(): void {
-    if (!this.ctx) return
+    const renderer = this.beginFrame()
+    if (!renderer) return
 
     const { width, height } = this.getCanvasDimensions()
-    const { padding, barGap, showValues } = this.config
+    const { padding } = this.config
+
+    if (this.bars.length > 0) {
+      const availableWidth = width - padding * 2
+      const availableHeight = height - padding * 2
+
+      // Give the heap tree layer part of the width when it is shown
+      if (this.showsHeapTree()) {
+        const chartWidth = (availableWidth - padding) * (1 - HEAP_TREE_RATIO)
+        const treeLeft = padding + chartWidth + padding
+        this.renderLanes(renderer, padding, padding, chartWidth, availableHeight)
+        this.renderHeapTree(treeLeft, padding, availableWidth - chartWidth - padding, availableHeight)
+      } else {
+        this.renderLanes(renderer, padding, padding, availableWidth, availableHeight)
+      }
+    }
 
-    // Clear and fill background
-    this.clearCanvas()
-    this.fillBackground()
+    this.endFrame()
+  }
 
-    // Calculate bar dimensions
-    const availableWidth = width - padding * 2
-    const availableHeight = height - padding * 2
+  /**
+   * Draw the main array with the configured view, plus the secondary lane beneath it when shown
+   */
+  private renderLanes(
+    renderer: BatchRenderer,
+    left: number,
+    top: number,
+    areaWidth: number,
+    areaHeight: number
+  ): void {
+    if (!this.ctx) return
+
+    const { padding, barGap } = this.config
     const n = this.bars.length
 
-    if (n === 0) return
+    // Split the height between the main lane and the secondary lane
+    const lane = this.getSecondaryLane()
+    const laneGap = lane ? padding : 0
+    const auxHeight = lane ? (areaHeight - laneGap) * AUX_LANE_RATIO : 0
+    const mainHeight = areaHeight - auxHeight - laneGap
+
+    SORTING_VIEWS[this.config.view]({
+      ctx: this.ctx,
+      renderer,
+      left,
+      top,
+      width: areaWidth,
+      height: mainHeight,
+      bars: this.getViewBars(),
+      length: n,
+      maxValue: this.maxValue,
+      heapSize: this.heapSize,
+      config: this.config,
+    })
+
+    if (!lane) return
+
+    // Draw the secondary lane beneath the main one
+    const auxTop = top + mainHeight + laneGap
+    this.ctx.strokeStyle = VIZ_COLORS.gridLine
+    this.ctx.lineWidth = 1
+    this.ctx.beginPath()
+    this.ctx.moveTo(left, auxTop + auxHeight + 0.5)
+    this.ctx.lineTo(left + areaWidth, auxTop + auxHeight + 0.5)
+    this.ctx.stroke()
+
+    this.ctx.fillStyle = VIZ_COLORS.textSecondary
+    this.ctx.font = '10px sans-serif'
+    this.ctx.textAlign = 'left'
+    this.ctx.textBaseline = 'top'
+    this.ctx.fillText(lane, left, auxTop - laneGap + 2)
+
+    if (lane === 'buckets') {
+      this.renderBuckets(renderer, left, auxTop, areaWidth, auxHeight)
+      return
+    }
 
-    const totalGapWidth = barGap * (n - 1)
-    const barWidth = Math.max(1, (availableWidth - totalGapWidth) / n)
+    // Auxiliary bars are aligned with the main bars by index
+    const { step, barWidth } = getBarSlot(areaWidth, n, barGap)
+    for (let i = 0; i < this.auxBars.length; i++) {
+      const bar = this.auxBars[i]
+      if (!bar) continue
+
+      drawBar(renderer, left + i * step, auxTop, barWidth, auxHeight, bar.value, this.maxValue, AUX_BAR_COLORS[bar.state])
+    }
+  }
+
+  /**
+   * Bars as handed to views, at their tweened positions and values
+   * Resting bars come first so moving bars are drawn over them.
+   */
+  private getViewBars(): SortingViewBar[] {
+    const tween = this.tween
+    const resting: SortingViewBar[] = []
+    const moving: SortingViewBar[] = []
 
-    // Draw bars
-    for (let i = 0; i < n; i++) {
+    for (let i = 0; i < this.bars.length; i++) {
       const bar = this.bars[i]
       if (!bar) continue
 
-      const normalizedValue = bar.value / this.maxValue
-      const barHeight = normalizedValue * availableHeight
-      const x = padding + i * (barWidth + barGap)
-      const y = padding + availableHeight - barHeight
-
-      // Get color based on state
-      const color = BAR_COLORS[bar.state]
-
-      // Draw bar
-      this.ctx.fillStyle = color
-      this.ctx.fillRect(x, y, barWidth, barHeight)
-
-      // Draw value text if enabled and bars are wide enough
-      if (showValues && barWidth >= 20) {
-        this.ctx.fillStyle = '#ffffff'
-        this.ctx.font = '10px sans-serif'
-        this.ctx.textAlign = 'center'
-        this.ctx.textBaseline = 'bottom'
-        this.ctx.fillText(
-          bar.value.toString(),
-          x + barWidth / 2,
-          y - 2
-        )
+      const disparity = distanceFromSorted(bar.value, i, this.sortedPositions)
+      const from = tween?.from.get(i)
+      if (tween && from !== undefined) {
+        moving.push({
+          value: bar.value,
+          state: bar.state,
+          position: lerp(from, i, tween.progress),
+          // Arcing: the bar moving right hops over the one sliding left
+          lift: this.config.swapMotion === 'arc' && from < i ? Math.sin(tween.progress * Math.PI) : 0,
+          disparity,
+        })
+        continue
       }
+
+      const value = tween?.values.has(i) ? lerp(tween.values.get(i)!, bar.value, tween.progress) : bar.value
+      resting.push({ value, state: bar.state, position: i, lift: 0, disparity })
     }
+
+    return resting.concat(moving)
+  }
+
+  /**
+   * Draw buckets as columns of stacked elements, filling up from the bottom
+   */
+  private renderBuckets(
+    renderer: BatchRenderer,
+    left: number,
+    top: number,
+    areaWidth: number,
+    areaHeight: number
+  ): void {
+    if (!this.ctx) return
+
+    const k = this.buckets.length
+    if (k === 0) return
+
+    const ctx = this.ctx
+    const gap = k > 1 ? Math.min(4, areaWidth / k / 4) : 0
+    const columnWidth = (areaWidth - gap * (k - 1)) / k
+    const capacity = Math.max(4, ...this.buckets.map(bucket => bucket.length))
+    const segmentHeight = areaHeight / capacity
+
+    for (let b = 0; b < k; b++) {
+      const bucket = this.buckets[b]!
+      const x = left + b * (columnWidth + gap)
+      const highlight = this.bucketHighlight?.bucket === b ? this.bucketHighlight.state : null
+
+      // Column background so empty buckets are still visible
+      renderer.rect(x, top, columnWidth, areaHeight, VIZ_COLORS.gridLine)
+
+      const color = AUX_BAR_COLORS[highlight ?? 'default']
+      for (let i = 0; i < bucket.length; i++) {
+        const y = top + areaHeight - (i + 1) * segmentHeight
+        const inset = segmentHeight >= 4 ? 1 : 0
+        renderer.rect(x, y + inset, columnWidth, segmentHeight - inset, color)
+      }
+
+      // Bucket index and fill count when columns are wide enough
+      if (columnWidth >= 14) {
+        ctx.fillStyle = VIZ_COLORS.textSecondary
+        ctx.font = '10px sans-serif'
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'top'
+        ctx.fillText(b.toString(), x + columnWidth / 2, top + areaHeight + 2)
+        if (bucket.length > 0) {
+          ctx.fillStyle = VIZ_COLORS.text
+          ctx.textBaseline = 'bottom'
+          ctx.fillText(bucket.length.toString(), x + columnWidth / 2, top + areaHeight - bucket.length * segmentHeight - 1)
+        }
+      }
+    }
+  }
+
+  /**
+   * Draw the heap region as a binary tree, node i having children 2i+1 and 2i+2
+   * Nodes share the state colors of their bars
+   */
+  private renderHeapTree(left: number, top: number, areaWidth: number, areaHeight: number): void {
+    if (!this.ctx) return
+
+    const size = this.heapSize ?? 0
+    const ctx = this.ctx
+
+    ctx.fillStyle = VIZ_COLORS.textSecondary
+    ctx.font = '10px sans-serif'
+    ctx.textAlign = 'left'
+    ctx.textBaseline = 'top'
+    ctx.fillText(`heap (${size})`, left, top)
+
+    if (size === 0) return
+
+    const depth = Math.floor(Math.log2(size)) + 1
+    const labelHeight = 16
+    const levelHeight = (areaHeight - labelHeight) / depth
+    const leafCount = Math.pow(2, depth - 1)
+    const radius = Math.max(2, Math.min(levelHeight / 3, areaWidth / leafCount / 2 - 1, 14))
+
+    const nodePosition = (index: number): { x: number; y: number } => {
+      const level = Math.floor(Math.log2(index + 1))
+      const positionInLevel = index + 1 - Math.pow(2, level)
+      const slotWidth = areaWidth / Math.pow(2, level)
+      return {
+        x: left + slotWidth * (positionInLevel + 0.5),
+        y: top + labelHeight + levelHeight * (level + 0.5),
+      }
+    }
+
+    // Edges first so nodes are drawn on top
+    ctx.strokeStyle = VIZ_COLORS.gridLine
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    for (let i = 1; i < size; i++) {
+      const from = nodePosition(Math.floor((i - 1) / 2))
+      const to = nodePosition(i)
+      ctx.moveTo(from.x, from.y)
+      ctx.lineTo(to.x, to.y)
+    }
+    ctx.stroke()
+
+    for (let i = 0; i < size; i++) {
+      const bar = this.bars[i]
+      if (!bar) continue
+
+      const { x, y } = nodePosition(i)
+      ctx.fillStyle = BAR_STATE_COLORS[bar.state]
+      ctx.beginPath()
+      ctx.arc(x, y, radius, 0, Math.PI * 2)
+      ctx.fill()
+
+      if (radius >= 9) {
+        ctx.fillStyle = '#ffffff'
+        ctx.font = `${Math.floor(radius)}px sans-serif`
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'middle'
+        ctx.fillText(bar.value.toString(), x, y)
+      }
+    }
+  }
+
+  /**
+   * Cancel pending animation and put tweening bars at rest
+   */
+  protected cancelAnimation(): void {
+    super.cancelAnimation()
+    this.tween = null
   }
 
   /**
@@ -356,6 +921,6 @@ export class SortingVisualizer extends Visualization<SortingConfig, SortingStepD
    */
   reset(): void {
     super.reset()
-    this.sortedIndices.clear()
+    this.clearStepState()
   }
 }
@@ -11,6 +11,7 @@
  */
 
 import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { QUADRATIC_MAX_ARRAY_SIZE } from '../types'
 
 const info: SortingAlgorithmInfo = {
   id: 'bubble-sort',
@@ -29,7 +30,6 @@ function sort(inputArray: number[]): SortingResult {
   const array = [...inputArray]
   const n = array.length
   const steps: SortingStep[] = []
-  const sorted: number[] = []
 
   let comparisons = 0
   let swaps = 0
@@ -46,9 +46,7 @@ function sort(inputArray: number[]): SortingResult {
       steps.push({
         action: 'compare',
         data: {
-          array: [...array],
           comparing: [j, j + 1],
-          sorted: [...sorted],
         },
         description: `Compare elements at index ${j} and ${j + 1}`,
       })
@@ -65,9 +63,7 @@ function sort(inputArray: number[]): SortingResult {
         steps.push({
           action: 'swap',
           data: {
-            array: [...array],
             swapping: [j, j + 1],
-            sorted: [...sorted],
           },
           description: `Swap elements at index ${j} and ${j + 1}`,
         })
@@ -75,40 +71,26 @@ function sort(inputArray: number[]): SortingResult {
     }
 
     // Mark the last unsorted element as sorted
-    sorted.push(n - i - 1)
-
     steps.push({
       action: 'mark-sorted',
       data: {
-        array: [...array],
-        sorted: [...sorted],
+        sortedAdded: [n - i - 1],
       },
       description: `Element at index ${n - i - 1} is now in its final position`,
     })
 
     // If no swaps occurred, array is already sorted
+    // (the completion step marks the remaining elements)
     if (!swapped) {
-      // Mark all remaining elements as sorted
-      for (let k = 0; k < n - i - 1; k++) {
-        if (!sorted.includes(k)) {
-          sorted.push(k)
-        }
-      }
       break
     }
   }
 
-  // Mark the first element as sorted (it's in place by default)
-  if (!sorted.includes(0)) {
-    sorted.push(0)
-  }
-
   // Final completion step
   steps.push({
     action: 'complete',
     data: {
-      array: [...array],
-      sorted: Array.from({ length: n }, (_, i) => i),
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
     },
     description: 'Sorting complete!',
   })
@@ -125,4 +107,5 @@ function sort(inputArray: number[]): SortingResult {
 export const BubbleSort: SortingAlgorithm = {
   info,
   sort,
+  maxArraySize: () => QUADRATIC_MAX_ARRAY_SIZE,
 }
@@ -0,0 +1,204 @@
+/**
+ * Bucket Sort Algorithm
+ *
+ * Distributes elements into buckets that each cover an equal slice of the
+ * value range, collects the buckets back into the array in order, then
+ * insertion-sorts each bucket's segment. Only the last phase compares elements.
+ *
+ * Time Complexity: O(n + k) average, O(n²) worst case
+ * Space Complexity: O(n + k)
+ * Stable: Yes
+ */
+
+import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { QUADRATIC_MAX_ARRAY_SIZE } from '../types'
+
+const info: SortingAlgorithmInfo = {
+  id: 'bucket-sort',
+  name: 'Bucket Sort',
+  description: 'Scatters elements into value-range buckets, gathers them back, then sorts each bucket',
+  timeComplexity: 'O(n²)',
+  spaceComplexity: 'O(n + k)',
+  stable: true,
+  difficulty: 3,
+  usesBuckets: true,
+}
+
+/**
+ * Generate sorting steps using Bucket Sort algorithm
+ */
+function sort(inputArray: number[]): SortingResult {
+  const array = [...inputArray]
+  const n = array.length
+  const steps: SortingStep[] = []
+
+  let comparisons = 0
+  let swaps = 0
+  let arrayAccesses = 0
+
+  /**
+   * Insertion sort the segment [start, end] that came from one bucket
+   */
+  function sortSegment(start: number, end: number): void {
+    steps.push({
+      action: 'mark-range',
+      data: {
+        range: [start, end],
+      },
+      description: `Sort bucket segment [${start}, ${end}]`,
+    })
+
+    for (let i = start + 1; i <= end; i++) {
+      const key = array[i]!
+      arrayAccesses++
+      let j = i - 1
+
+      while (j >= start) {
+        arrayAccesses++
+        comparisons++
+
+        steps.push({
+          action: 'compare',
+          data: {
+            comparing: [j, i],
+            range: [start, end],
+          },
+          description: `Compare element at index ${j} with key (${key})`,
+        })
+
+        if (array[j]! <= key) break
+
+        array[j + 1] = array[j]!
+        arrayAccesses++
+        swaps++
+
+        steps.push({
+          action: 'set',
+          data: {
+            setting: { index: j + 1, value: array[j + 1]! },
+            range: [start, end],
+          },
+          description: `Move element from index ${j} to index ${j + 1}`,
+        })
+
+        j--
+      }
+
+      if (j + 1 !== i) {
+        array[j + 1] = key
+        arrayAccesses++
+
+        steps.push({
+          action: 'set',
+          data: {
+            setting: { index: j + 1, value: key },
+            range: [start, end],
+          },
+          description: `Insert key at index ${j + 1}`,
+        })
+      }
+    }
+
+    // Buckets are ordered, so a sorted segment is in its final position
+    steps.push({
+      action: 'mark-sorted',
+      data: {
+        sortedAdded: Array.from({ length: end - start + 1 }, (_, i) => start + i),
+      },
+      description: `Bucket segment [${start}, ${end}] is sorted`,
+    })
+  }
+
+  if (n > 0) {
+    const min = array.reduce((a, b) => Math.min(a, b))
+    const max = array.reduce((a, b) => Math.max(a, b))
+    arrayAccesses += n
+    const k = Math.max(1, Math.ceil(Math.sqrt(n)))
+    const bucketRange = (max - min + 1) / k
+    const buckets: number[][] = Array.from({ length: k }, () => [])
+
+    steps.push({
+      action: 'bucket-init',
+      data: {
+        bucketCount: k,
+      },
+      description: `Create ${k} buckets covering values ${min} to ${max}`,
+    })
+
+    // Scatter into buckets
+    for (let i = 0; i < n; i++) {
+      const value = array[i]!
+      const bucket = Math.min(k - 1, Math.floor((value - min) / bucketRange))
+      buckets[bucket]!.push(value)
+      arrayAccesses++
+
+      steps.push({
+        action: 'bucket-distribute',
+        data: {
+          bucketPush: { bucket, value },
+          reading: [i],
+        },
+        description: `Put value ${value} into bucket ${bucket}`,
+      })
+    }
+
+    // Gather buckets back into the array, remembering each segment
+    const segments: [number, number][] = []
+    let index = 0
+    for (let b = 0; b < k; b++) {
+      const bucket = buckets[b]!
+      const start = index
+
+      while (bucket.length > 0) {
+        const value = bucket.shift()!
+        array[index] = value
+        arrayAccesses++
+        swaps++
+
+        steps.push({
+          action: 'bucket-collect',
+          data: {
+            bucketPop: b,
+            setting: { index, value },
+          },
+          description: `Gather value ${value} from bucket ${b} into index ${index}`,
+        })
+
+        index++
+      }
+
+      if (index > start) {
+        segments.push([start, index - 1])
+      }
+    }
+
+    // Sort within each bucket's segment
+    for (const [start, end] of segments) {
+      sortSegment(start, end)
+    }
+  }
+
+  // Final completion step
+  steps.push({
+    action: 'complete',
+    data: {
+      bucketCount: 0,
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
+    },
+    description: 'Sorting complete!',
+  })
+
+  return {
+    steps,
+    sortedArray: array,
+    comparisons,
+    swaps,
+    arrayAccesses,
+  }
+}
+
+export const BucketSort: SortingAlgorithm = {
+  info,
+  sort,
+  maxArraySize: () => QUADRATIC_MAX_ARRAY_SIZE,
+}
@@ -0,0 +1,123 @@
+/**
+ * Counting Sort Algorithm
+ *
+ * A non-comparison integer sorting algorithm. It counts how many times each
+ * key occurs by dropping every element into the count slot for its value,
+ * then writes the keys back out in order, each as many times as it was counted.
+ *
+ * Time Complexity: O(n + k) where k is the range of values
+ * Space Complexity: O(k)
+ * Stable: Yes
+ */
+
+import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { ConfigValidationError } from '../../core/ConfigManager'
+
+const info: SortingAlgorithmInfo = {
+  id: 'counting-sort',
+  name: 'Counting Sort',
+  description: 'Counts occurrences of each value, then writes the values back in order without comparing elements',
+  timeComplexity: 'O(n + k)',
+  spaceComplexity: 'O(k)',
+  stable: true,
+  difficulty: 2,
+  usesBuckets: true,
+}
+
+/**
+ * Generate sorting steps using Counting Sort algorithm
+ * @throws ConfigValidationError if a value is not a whole number, as values index the count slots
+ */
+function sort(inputArray: number[]): SortingResult {
+  const fraction = inputArray.find(value => !Number.isInteger(value))
+  if (fraction !== undefined) {
+    throw new ConfigValidationError('array', fraction, 'Counting sort only sorts whole numbers')
+  }
+
+  const array = [...inputArray]
+  const n = array.length
+  const steps: SortingStep[] = []
+
+  let swaps = 0
+  let arrayAccesses = 0
+
+  if (n > 0) {
+    // Find the range of keys
+    const min = array.reduce((a, b) => Math.min(a, b))
+    const max = array.reduce((a, b) => Math.max(a, b))
+    arrayAccesses += n
+    const k = max - min + 1
+    const counts: number[][] = Array.from({ length: k }, () => [])
+
+    steps.push({
+      action: 'bucket-init',
+      data: {
+        bucketCount: k,
+      },
+      description: `Allocate ${k} count slots for values ${min} to ${max}`,
+    })
+
+    // Count each key
+    for (let i = 0; i < n; i++) {
+      const value = array[i]!
+      counts[value - min]!.push(value)
+      arrayAccesses++
+
+      steps.push({
+        action: 'bucket-distribute',
+        data: {
+          bucketPush: { bucket: value - min, value },
+          reading: [i],
+        },
+        description: `Count value ${value} (slot ${value - min})`,
+      })
+    }
+
+    // Write keys back in order
+    let index = 0
+    for (let slot = 0; slot < k; slot++) {
+      const bucket = counts[slot]!
+      while (bucket.length > 0) {
+        const value = bucket.shift()!
+        array[index] = value
+        arrayAccesses++
+        swaps++
+
+        steps.push({
+          action: 'bucket-collect',
+          data: {
+            bucketPop: slot,
+            setting: { index, value },
+            sortedAdded: [index],
+          },
+          description: `Write value ${value} to index ${index}`,
+        })
+
+        index++
+      }
+    }
+  }
+
+  // Final completion step
+  steps.push({
+    action: 'complete',
+    data: {
+      bucketCount: 0,
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
+    },
+    description: 'Sorting complete!',
+  })
+
+  return {
+    steps,
+    sortedArray: array,
+    comparisons: 0,
+    swaps,
+    arrayAccesses,
+  }
+}
+
+export const CountingSort: SortingAlgorithm = {
+  info,
+  sort,
+}
@@ -0,0 +1,163 @@
+/**
+ * Heap Sort Algorithm
+ *
+ * A comparison-based sorting algorithm that first arranges the array into a
+ * binary max-heap, then repeatedly swaps the root (the largest element) to
+ * the end of the heap region and sifts the new root down to restore the heap.
+ *
+ * Time Complexity: O(n log n)
+ * Space Complexity: O(1)
+ * Stable: No
+ */
+
+import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { LINEARITHMIC_MAX_ARRAY_SIZE } from '../types'
+
+const info: SortingAlgorithmInfo = {
+  id: 'heap-sort',
+  name: 'Heap Sort',
+  description: 'Builds a max-heap, then repeatedly moves the largest element to the end of the array',
+  timeComplexity: 'O(n log n)',
+  spaceComplexity: 'O(1)',
+  stable: false,
+  difficulty: 4,
+  usesHeap: true,
+}
+
+/**
+ * Generate sorting steps using Heap Sort algorithm
+ */
+function sort(inputArray: number[]): SortingResult {
+  const array = [...inputArray]
+  const n = array.length
+  const steps: SortingStep[] = []
+
+  let comparisons = 0
+  let swaps = 0
+  let arrayAccesses = 0
+
+  /**
+   * Swap two elements and record the step
+   */
+  function swap(i: number, j: number, description: string): void {
+    const temp = array[i]!
+    array[i] = array[j]!
+    array[j] = temp
+    swaps++
+    arrayAccesses += 2
+
+    steps.push({
+      action: 'swap',
+      data: {
+        swapping: [i, j],
+      },
+      description,
+    })
+  }
+
+  /**
+   * Sift the element at root down until the heap property holds
+   * for the heap region [0, size)
+   */
+  function siftDown(root: number, size: number): void {
+    let parent = root
+
+    while (true) {
+      const left = 2 * parent + 1
+      const right = left + 1
+      let largest = parent
+
+      if (left >= size) break
+
+      if (right < size) {
+        arrayAccesses += 2
+        comparisons++
+
+        steps.push({
+          action: 'compare',
+          data: {
+            comparing: [left, right],
+            pivot: parent,
+          },
+          description: `Compare children at index ${left} and ${right}`,
+        })
+      }
+
+      const child = right < size && array[right]! > array[left]! ? right : left
+
+      arrayAccesses += 2
+      comparisons++
+
+      steps.push({
+        action: 'compare',
+        data: {
+          comparing: [parent, child],
+        },
+        description: `Compare parent at index ${parent} with larger child at index ${child}`,
+      })
+
+      if (array[child]! > array[parent]!) {
+        largest = child
+      }
+
+      if (largest === parent) break
+
+      swap(parent, largest, `Sift down: swap index ${parent} with child ${largest}`)
+      parent = largest
+    }
+  }
+
+  // Build the max-heap over the whole array
+  steps.push({
+    action: 'heap-boundary',
+    data: {
+      heapSize: n,
+      range: [0, n - 1],
+    },
+    description: 'Build a max-heap from the whole array',
+  })
+
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    siftDown(i, n)
+  }
+
+  // Repeatedly move the maximum to the end and shrink the heap
+  for (let end = n - 1; end > 0; end--) {
+    swap(0, end, `Move the maximum to index ${end}`)
+
+    steps.push({
+      action: 'heap-boundary',
+      data: {
+        heapSize: end,
+        sortedAdded: [end],
+      },
+      description: `Heap shrinks to ${end} elements; index ${end} is now in its final position`,
+    })
+
+    siftDown(0, end)
+  }
+
+  // Final completion step
+  steps.push({
+    action: 'complete',
+    data: {
+      heapSize: 0,
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
+    },
+    description: 'Sorting complete!',
+  })
+
+  return {
+    steps,
+    sortedArray: array,
+    comparisons,
+    swaps,
+    arrayAccesses,
+  }
+}
+
+export const HeapSort: SortingAlgorithm = {
+  info,
+  sort,
+  maxArraySize: () => LINEARITHMIC_MAX_ARRAY_SIZE,
+}
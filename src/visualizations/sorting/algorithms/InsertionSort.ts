@@ -11,6 +11,7 @@
  */
 
 import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { QUADRATIC_MAX_ARRAY_SIZE } from '../types'
 
 const info: SortingAlgorithmInfo = {
   id: 'insertion-sort',
@@ -29,7 +30,6 @@ function sort(inputArray: number[]): SortingResult {
   const array = [...inputArray]
   const n = array.length
   const steps: SortingStep[] = []
-  const sorted: number[] = [0] // First element is considered sorted
 
   let comparisons = 0
   let swaps = 0
@@ -39,8 +39,7 @@ function sort(inputArray: number[]): SortingResult {
   steps.push({
     action: 'mark-sorted',
     data: {
-      array: [...array],
-      sorted: [...sorted],
+      sortedAdded: [0],
     },
     description: 'First element is trivially sorted',
   })
@@ -54,9 +53,7 @@ function sort(inputArray: number[]): SortingResult {
     steps.push({
       action: 'mark-pivot',
       data: {
-        array: [...array],
         pivot: i,
-        sorted: [...sorted],
       },
       description: `Insert element at index ${i} (value: ${key}) into sorted portion`,
     })
@@ -69,10 +66,8 @@ function sort(inputArray: number[]): SortingResult {
       steps.push({
         action: 'compare',
         data: {
-          array: [...array],
           comparing: [j, i],
           pivot: i,
-          sorted: [...sorted],
         },
         description: `Compare element at index ${j} with key (${key})`,
       })
@@ -85,10 +80,8 @@ function sort(inputArray: number[]): SortingResult {
         steps.push({
           action: 'set',
           data: {
-            array: [...array],
             setting: { index: j + 1, value: array[j + 1]! },
             pivot: i,
-            sorted: [...sorted],
           },
           description: `Move element from index ${j} to index ${j + 1}`,
         })
@@ -106,21 +99,16 @@ function sort(inputArray: number[]): SortingResult {
     steps.push({
       action: 'set',
       data: {
-        array: [...array],
         setting: { index: j + 1, value: key },
-        sorted: [...sorted],
       },
       description: `Insert key at index ${j + 1}`,
     })
 
     // Mark the sorted portion
-    sorted.push(i)
-
     steps.push({
       action: 'mark-sorted',
       data: {
-        array: [...array],
-        sorted: [...sorted],
+        sortedAdded: [i],
       },
       description: `Sorted portion now includes indices 0 to ${i}`,
     })
@@ -130,8 +118,7 @@ function sort(inputArray: number[]): SortingResult {
   steps.push({
     action: 'complete',
     data: {
-      array: [...array],
-      sorted: Array.from({ length: n }, (_, i) => i),
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
     },
     description: 'Sorting complete!',
   })
@@ -148,4 +135,5 @@ function sort(inputArray: number[]): SortingResult {
 export const InsertionSort: SortingAlgorithm = {
   info,
   sort,
+  maxArraySize: () => QUADRATIC_MAX_ARRAY_SIZE,
 }
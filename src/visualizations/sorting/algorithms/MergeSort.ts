@@ -0,0 +1,208 @@
+/**
+ * Merge Sort Algorithms
+ *
+ * A divide-and-conquer sorting algorithm that splits the array into halves,
+ * sorts them, and merges the sorted halves through an auxiliary buffer.
+ * Provided in two variants:
+ * - Top-down: recursively splits the array until single elements remain
+ * - Bottom-up: iteratively merges runs of width 1, 2, 4, ... without recursion
+ *
+ * Time Complexity: O(n log n)
+ * Space Complexity: O(n)
+ * Stable: Yes
+ */
+
+import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { LINEARITHMIC_MAX_ARRAY_SIZE } from '../types'
+
+const topDownInfo: SortingAlgorithmInfo = {
+  id: 'merge-sort',
+  name: 'Merge Sort (Top-Down)',
+  description: 'Recursively splits the array in half, then merges the sorted halves through an auxiliary array',
+  timeComplexity: 'O(n log n)',
+  spaceComplexity: 'O(n)',
+  stable: true,
+  difficulty: 3,
+  usesAuxiliaryArray: true,
+}
+
+const bottomUpInfo: SortingAlgorithmInfo = {
+  id: 'bottom-up-merge-sort',
+  name: 'Merge Sort (Bottom-Up)',
+  description: 'Merges runs of width 1, 2, 4, ... through an auxiliary array until the whole array is one run',
+  timeComplexity: 'O(n log n)',
+  spaceComplexity: 'O(n)',
+  stable: true,
+  difficulty: 3,
+  usesAuxiliaryArray: true,
+}
+
+/**
+ * Shared state and merge routine used by both variants
+ */
+function createMerger(inputArray: number[]) {
+  const array = [...inputArray]
+  const n = array.length
+  const aux: number[] = new Array(n).fill(0)
+  const steps: SortingStep[] = []
+
+  const counters = {
+    comparisons: 0,
+    swaps: 0,
+    arrayAccesses: 0,
+  }
+
+  /**
+   * Merge the sorted runs [low, mid] and [mid + 1, high]
+   * The final merge over the whole array places elements in sorted position
+   */
+  function merge(low: number, mid: number, high: number): void {
+    const isFinal = low === 0 && high === n - 1
+
+    steps.push({
+      action: 'mark-range',
+      data: {
+        range: [low, high],
+      },
+      description: `Merge subarrays [${low}, ${mid}] and [${mid + 1}, ${high}]`,
+    })
+
+    // Copy the range into the auxiliary array
+    for (let k = low; k <= high; k++) {
+      aux[k] = array[k]!
+      counters.arrayAccesses += 2
+
+      steps.push({
+        action: 'aux-write',
+        data: {
+          auxSetting: { index: k, value: aux[k]! },
+          reading: [k],
+          range: [low, high],
+        },
+        description: `Copy element at index ${k} into the auxiliary array`,
+      })
+    }
+
+    // Merge back from the auxiliary array
+    let i = low
+    let j = mid + 1
+
+    for (let k = low; k <= high; k++) {
+      let source: number
+
+      if (i > mid) {
+        source = j++
+      } else if (j > high) {
+        source = i++
+      } else {
+        counters.comparisons++
+        counters.arrayAccesses += 2
+
+        steps.push({
+          action: 'aux-compare',
+          data: {
+            auxReading: [i, j],
+            range: [low, high],
+          },
+          description: `Compare auxiliary elements at index ${i} and ${j}`,
+        })
+
+        // Taking from the left run on ties keeps the sort stable
+        source = aux[j]! < aux[i]! ? j++ : i++
+      }
+
+      array[k] = aux[source]!
+      counters.arrayAccesses += 2
+      counters.swaps++
+
+      steps.push({
+        action: 'set',
+        data: {
+          setting: { index: k, value: array[k]! },
+          auxReading: [source],
+          range: [low, high],
+          sortedAdded: isFinal ? [k] : undefined,
+        },
+        description: `Write auxiliary element ${source} to index ${k}`,
+      })
+    }
+
+    steps.push({
+      action: 'aux-clear',
+      data: {
+        auxClear: [low, high],
+      },
+      description: `Subarray [${low}, ${high}] is merged`,
+    })
+  }
+
+  /**
+   * Build the final result
+   */
+  function finish(): SortingResult {
+    steps.push({
+      action: 'complete',
+      data: {
+        sortedAdded: Array.from({ length: n }, (_, i) => i),
+      },
+      description: 'Sorting complete!',
+    })
+
+    return {
+      steps,
+      sortedArray: array,
+      ...counters,
+    }
+  }
+
+  return { n, merge, finish }
+}
+
+/**
+ * Generate sorting steps using top-down Merge Sort
+ */
+function sortTopDown(inputArray: number[]): SortingResult {
+  const { n, merge, finish } = createMerger(inputArray)
+
+  function mergeSort(low: number, high: number): void {
+    if (low >= high) return
+
+    const mid = Math.floor((low + high) / 2)
+    mergeSort(low, mid)
+    mergeSort(mid + 1, high)
+    merge(low, mid, high)
+  }
+
+  mergeSort(0, n - 1)
+
+  return finish()
+}
+
+/**
+ * Generate sorting steps using bottom-up Merge Sort
+ */
+function sortBottomUp(inputArray: number[]): SortingResult {
+  const { n, merge, finish } = createMerger(inputArray)
+
+  for (let width = 1; width < n; width *= 2) {
+    for (let low = 0; low < n - width; low += width * 2) {
+      const mid = low + width - 1
+      const high = Math.min(low + width * 2 - 1, n - 1)
+      merge(low, mid, high)
+    }
+  }
+
+  return finish()
+}
+
+export const MergeSort: SortingAlgorithm = {
+  info: topDownInfo,
+  sort: sortTopDown,
+  maxArraySize: () => LINEARITHMIC_MAX_ARRAY_SIZE,
+}
+
+export const BottomUpMergeSort: SortingAlgorithm = {
+  info: bottomUpInfo,
+  sort: sortBottomUp,
+  maxArraySize: () => LINEARITHMIC_MAX_ARRAY_SIZE,
+}
@@ -5,12 +5,104 @@
  * a 'pivot' element and partitioning the array around the pivot so that
  * elements less than pivot come before it, and elements greater come after.
  *
+ * The pivot choice and partition scheme are configurable:
+ * - Pivot: first, last, random, median-of-three, ninther (median of medians of three)
+ * - Partition: Lomuto, Hoare, 3-way (Dijkstra), dual-pivot (Yaroslavskiy)
+ * Small subarrays can optionally be finished with insertion sort (cutoff).
+ *
  * Time Complexity: O(n log n) average, O(n²) worst case
  * Space Complexity: O(log n) - due to recursion stack
  * Stable: No
  */
 
-import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import type {
+  SortingAlgorithm,
+  SortingAlgorithmInfo,
+  SortingOptions,
+  SortingOptionsSchema,
+  SortingResult,
+  SortingStep,
+  SortingStepData,
+} from '../types'
+import { LINEARITHMIC_MAX_ARRAY_SIZE, QUADRATIC_MAX_ARRAY_SIZE } from '../types'
+import { resolveSortingOptions } from '../options'
+import { createRandom, hashSeed } from '../../../utils/random'
+
+/**
+ * How the pivot is chosen for each partition
+ */
+export type PivotStrategy = 'first' | 'last' | 'random' | 'median-of-three' | 'ninther'
+
+/**
+ * How the range is partitioned around the pivot
+ */
+export type PartitionScheme = 'lomuto' | 'hoare' | 'three-way' | 'dual-pivot'
+
+/**
+ * Options for Quick Sort
+ */
+export type QuickSortOptions = {
+  /** Pivot selection strategy */
+  pivot: PivotStrategy
+  /** Partition scheme */
+  partition: PartitionScheme
+  /** Subarrays of at most this many elements are finished with insertion sort (0 = never) */
+  cutoff: number
+}
+
+/**
+ * Default Quick Sort options (classic Lomuto with the last element as pivot)
+ */
+export const DEFAULT_QUICK_SORT_OPTIONS: QuickSortOptions = {
+  pivot: 'last',
+  partition: 'lomuto',
+  cutoff: 0,
+}
+
+/**
+ * Display names for pivot strategies
+ */
+export const PIVOT_STRATEGY_NAMES: Record<PivotStrategy, string> = {
+  first: 'First element',
+  last: 'Last element',
+  random: 'Random element',
+  'median-of-three': 'Median of three',
+  ninther: 'Ninther',
+}
+
+/**
+ * Display names for partition schemes
+ */
+export const PARTITION_SCHEME_NAMES: Record<PartitionScheme, string> = {
+  lomuto: 'Lomuto',
+  hoare: 'Hoare',
+  'three-way': '3-way (Dijkstra)',
+  'dual-pivot': 'Dual-pivot (Yaroslavskiy)',
+}
+
+const optionsSchema: SortingOptionsSchema<QuickSortOptions> = {
+  defaults: DEFAULT_QUICK_SORT_OPTIONS,
+  fields: {
+    pivot: { label: 'Pivot', control: 'select', choices: PIVOT_STRATEGY_NAMES },
+    partition: { label: 'Partition', control: 'select', choices: PARTITION_SCHEME_NAMES },
+    cutoff: {
+      label: 'Insertion sort cutoff',
+      control: 'number',
+      min: 0,
+      max: 64,
+      step: 1,
+      hint: 'Subarrays this small are finished with insertion sort (0 = off)',
+    },
+  },
+  validation: {
+    cutoff: [
+      {
+        validate: (v) => Number.isInteger(v),
+        message: 'Cutoff must be a whole number',
+      },
+    ],
+  },
+}
 
 const info: SortingAlgorithmInfo = {
   id: 'quick-sort',
@@ -20,155 +112,392 @@ const info: SortingAlgorithmInfo = {
   spaceComplexity: 'O(log n)',
   stable: false,
   difficulty: 3,
+  options: optionsSchema,
 }
 
 /**
  * Generate sorting steps using Quick Sort algorithm
  */
-function sort(inputArray: number[]): SortingResult {
+function sort(inputArray: number[], inputOptions?: SortingOptions): SortingResult {
+  const options = resolveSortingOptions(optionsSchema, inputOptions)
   const array = [...inputArray]
   const n = array.length
   const steps: SortingStep[] = []
-  const sorted: number[] = []
+  const sorted = new Set<number>()
+
+  // Random pivots are seeded from the input so the same array always gives the same steps
+  const random = createRandom(hashSeed(inputArray))
 
   let comparisons = 0
   let swaps = 0
   let arrayAccesses = 0
 
   /**
-   * Partition the array around a pivot (last element)
-   * Returns the final index of the pivot
+   * Record a comparison between two indices
    */
-  function partition(low: number, high: number): number {
-    const pivot = array[high]!
+  function compare(i: number, j: number, description: string, extra: SortingStepData = {}): void {
     arrayAccesses++
+    comparisons++
+
+    steps.push({
+      action: 'compare',
+      data: {
+        comparing: [i, j],
+        ...extra,
+      },
+      description,
+    })
+  }
+
+  /**
+   * Swap two elements and record the step
+   */
+  function swap(i: number, j: number, description: string, extra: SortingStepData = {}): void {
+    if (i === j) return
+
+    const temp = array[i]!
+    array[i] = array[j]!
+    array[j] = temp
+    swaps++
+    arrayAccesses += 2
+
+    steps.push({
+      action: 'swap',
+      data: {
+        swapping: [i, j],
+        ...extra,
+      },
+      description,
+    })
+  }
+
+  /**
+   * Mark an index as being in its final position
+   */
+  function markSorted(index: number, description: string): void {
+    if (sorted.has(index)) return
+    sorted.add(index)
 
-    // Mark pivot and range
     steps.push({
-      action: 'mark-pivot',
+      action: 'mark-sorted',
       data: {
-        array: [...array],
-        pivot: high,
-        range: [low, high],
-        sorted: [...sorted],
+        sortedAdded: [index],
       },
-      description: `Pivot selected at index ${high} (value: ${pivot})`,
+      description,
     })
+  }
+
+  /**
+   * Return the index holding the median of the values at a, b and c
+   */
+  function medianOfThree(a: number, b: number, c: number, range: [number, number]): number {
+    compare(a, b, `Median of three: compare index ${a} with ${b}`, { range })
+    compare(b, c, `Median of three: compare index ${b} with ${c}`, { range })
+    compare(a, c, `Median of three: compare index ${a} with ${c}`, { range })
+
+    const va = array[a]!
+    const vb = array[b]!
+    const vc = array[c]!
+
+    if ((va <= vb && vb <= vc) || (vc <= vb && vb <= va)) return b
+    if ((vb <= va && va <= vc) || (vc <= va && va <= vb)) return a
+    return c
+  }
+
+  /**
+   * Choose the pivot index for [low, high] according to the pivot strategy
+   */
+  function choosePivot(low: number, high: number): number {
+    const range: [number, number] = [low, high]
+    const size = high - low + 1
+
+    switch (options.pivot) {
+      case 'first':
+        return low
+
+      case 'random':
+        return low + Math.floor(random() * size)
+
+      case 'median-of-three':
+        if (size < 3) return high
+        return medianOfThree(low, low + Math.floor((size - 1) / 2), high, range)
+
+      case 'ninther': {
+        if (size < 3) return high
+        if (size < 9) {
+          return medianOfThree(low, low + Math.floor((size - 1) / 2), high, range)
+        }
+        // Median of the medians of three evenly spaced triples
+        const step = Math.floor(size / 8)
+        const at = (k: number): number => Math.min(high, low + k * step)
+        const m1 = medianOfThree(at(0), at(1), at(2), range)
+        const m2 = medianOfThree(at(3), at(4), at(5), range)
+        const m3 = medianOfThree(at(6), at(7), high, range)
+        return medianOfThree(m1, m2, m3, range)
+      }
+
+      case 'last':
+      default:
+        return high
+    }
+  }
+
+  /**
+   * Lomuto partition: pivot is moved to the end, smaller elements are
+   * swept to the front, and the pivot lands in its final position
+   */
+  function partitionLomuto(low: number, high: number, pivotIndex: number): void {
+    const range: [number, number] = [low, high]
+
+    swap(pivotIndex, high, `Move pivot to the end (index ${high})`, { pivot: high, range })
+
+    const pivot = array[high]!
+    arrayAccesses++
 
     let i = low - 1
 
     for (let j = low; j < high; j++) {
-      arrayAccesses++
-      comparisons++
-
-      steps.push({
-        action: 'compare',
-        data: {
-          array: [...array],
-          comparing: [j, high],
-          pivot: high,
-          range: [low, high],
-          sorted: [...sorted],
-        },
-        description: `Compare element at index ${j} with pivot`,
-      })
+      compare(j, high, `Compare element at index ${j} with pivot`, { pivot: high, range })
 
       if (array[j]! <= pivot) {
         i++
-
-        if (i !== j) {
-          // Swap elements
-          const temp = array[i]!
-          array[i] = array[j]!
-          array[j] = temp
-          swaps++
-          arrayAccesses += 2
-
-          steps.push({
-            action: 'swap',
-            data: {
-              array: [...array],
-              swapping: [i, j],
-              pivot: high,
-              range: [low, high],
-              sorted: [...sorted],
-            },
-            description: `Swap elements at index ${i} and ${j}`,
-          })
-        }
+        swap(i, j, `Swap elements at index ${i} and ${j}`, { pivot: high, range })
       }
     }
 
     // Place pivot in its correct position
-    const pivotIndex = i + 1
+    const finalIndex = i + 1
+    swap(finalIndex, high, `Place pivot at its correct position (index ${finalIndex})`, { range })
+    markSorted(finalIndex, `Element at index ${finalIndex} is now in its final position`)
 
-    if (pivotIndex !== high) {
-      const temp = array[pivotIndex]!
-      array[pivotIndex] = array[high]!
-      array[high] = temp
-      swaps++
-      arrayAccesses += 2
+    quickSort(low, finalIndex - 1)
+    quickSort(finalIndex + 1, high)
+  }
 
-      steps.push({
-        action: 'swap',
-        data: {
-          array: [...array],
-          swapping: [pivotIndex, high],
-          range: [low, high],
-          sorted: [...sorted],
-        },
-        description: `Place pivot at its correct position (index ${pivotIndex})`,
-      })
+  /**
+   * Hoare partition: two indices move toward each other swapping
+   * out-of-place pairs; the pivot is not necessarily placed in its final position
+   */
+  function partitionHoare(low: number, high: number, pivotIndex: number): void {
+    const range: [number, number] = [low, high]
+
+    swap(pivotIndex, low, `Move pivot to the front (index ${low})`, { pivot: low, range })
+
+    const pivot = array[low]!
+    arrayAccesses++
+    let pivotAt = low
+
+    let i = low - 1
+    let j = high + 1
+
+    while (true) {
+      do {
+        i++
+        compare(i, pivotAt, `Scan right: compare index ${i} with pivot`, { pivot: pivotAt, range })
+      } while (array[i]! < pivot)
+
+      do {
+        j--
+        compare(j, pivotAt, `Scan left: compare index ${j} with pivot`, { pivot: pivotAt, range })
+      } while (array[j]! > pivot)
+
+      if (i >= j) break
+
+      // Keep following the pivot value so it stays highlighted
+      if (pivotAt === i) pivotAt = j
+      else if (pivotAt === j) pivotAt = i
+
+      swap(i, j, `Swap elements at index ${i} and ${j}`, { pivot: pivotAt, range })
+    }
+
+    quickSort(low, j)
+    quickSort(j + 1, high)
+  }
+
+  /**
+   * 3-way (Dijkstra) partition: splits into < pivot, = pivot and > pivot;
+   * the whole equal block is in its final position
+   */
+  function partitionThreeWay(low: number, high: number, pivotIndex: number): void {
+    const range: [number, number] = [low, high]
+
+    swap(pivotIndex, low, `Move pivot to the front (index ${low})`, { pivot: low, range })
+
+    const pivot = array[low]!
+    arrayAccesses++
+
+    // Invariant: [low, lt) < pivot, [lt, i) == pivot, (gt, high] > pivot
+    let lt = low
+    let i = low + 1
+    let gt = high
+
+    while (i <= gt) {
+      compare(i, lt, `Compare element at index ${i} with pivot`, { pivot: lt, range })
+
+      if (array[i]! < pivot) {
+        swap(lt, i, `Move smaller element at index ${i} before the equal block`, { pivot: lt + 1, range })
+        lt++
+        i++
+      } else if (array[i]! > pivot) {
+        swap(i, gt, `Move larger element at index ${i} to index ${gt}`, { pivot: lt, range })
+        gt--
+      } else {
+        i++
+      }
+    }
+
+    for (let k = lt; k <= gt; k++) {
+      markSorted(k, `Element at index ${k} equals the pivot and is in its final position`)
+    }
+
+    quickSort(low, lt - 1)
+    quickSort(gt + 1, high)
+  }
+
+  /**
+   * Dual-pivot (Yaroslavskiy) partition: two pivots p <= q split the range
+   * into < p, between p and q, and > q
+   */
+  function partitionDualPivot(low: number, high: number, pivotIndex: number): void {
+    const range: [number, number] = [low, high]
+
+    // The chosen pivot goes to the front; the element at the end is the second pivot
+    if (pivotIndex === high) {
+      swap(low, high, `Move pivot to the front (index ${low})`, { range })
+    } else {
+      swap(pivotIndex, low, `Move pivot to the front (index ${low})`, { range })
+    }
+
+    compare(low, high, 'Compare the two pivots', { pivot: low, secondPivot: high, range })
+    if (array[low]! > array[high]!) {
+      swap(low, high, 'Order the pivots so the smaller is first', { range })
+    }
+
+    const p = array[low]!
+    const q = array[high]!
+    arrayAccesses += 2
+
+    const pivots = { pivot: low, secondPivot: high, range }
+
+    let lt = low + 1
+    let gt = high - 1
+    let k = low + 1
+
+    while (k <= gt) {
+      compare(k, low, `Compare element at index ${k} with the smaller pivot`, pivots)
+
+      if (array[k]! < p) {
+        swap(k, lt, `Move element at index ${k} into the < p region`, pivots)
+        lt++
+      } else {
+        compare(k, high, `Compare element at index ${k} with the larger pivot`, pivots)
+
+        if (array[k]! > q) {
+          while (k < gt) {
+            compare(gt, high, `Scan left: compare index ${gt} with the larger pivot`, pivots)
+            if (array[gt]! <= q) break
+            gt--
+          }
+
+          swap(k, gt, `Move element at index ${k} into the > q region`, pivots)
+          gt--
+
+          compare(k, low, `Compare swapped-in element at index ${k} with the smaller pivot`, pivots)
+          if (array[k]! < p) {
+            swap(k, lt, `Move element at index ${k} into the < p region`, pivots)
+            lt++
+          }
+        }
+      }
+      k++
     }
 
-    // Mark pivot as sorted
-    sorted.push(pivotIndex)
+    lt--
+    gt++
+
+    // Place both pivots in their final positions
+    swap(low, lt, `Place the smaller pivot at index ${lt}`, { range })
+    swap(high, gt, `Place the larger pivot at index ${gt}`, { range })
+    markSorted(lt, `Element at index ${lt} is now in its final position`)
+    markSorted(gt, `Element at index ${gt} is now in its final position`)
+
+    quickSort(low, lt - 1)
+    quickSort(lt + 1, gt - 1)
+    quickSort(gt + 1, high)
+  }
+
+  /**
+   * Finish a small subarray with insertion sort; every element of the
+   * subarray already belongs to it, so it ends up in its final position
+   */
+  function insertionSort(low: number, high: number): void {
+    const range: [number, number] = [low, high]
 
     steps.push({
-      action: 'mark-sorted',
+      action: 'mark-range',
       data: {
-        array: [...array],
-        sorted: [...sorted],
+        range,
       },
-      description: `Element at index ${pivotIndex} is now in its final position`,
+      description: `Subarray [${low}, ${high}] is below the cutoff; finish with insertion sort`,
     })
 
-    return pivotIndex
+    for (let i = low + 1; i <= high; i++) {
+      for (let j = i; j > low; j--) {
+        compare(j - 1, j, `Compare element at index ${j - 1} with ${j}`, { range })
+        if (array[j - 1]! <= array[j]!) break
+        swap(j - 1, j, `Swap elements at index ${j - 1} and ${j}`, { range })
+      }
+    }
+
+    for (let k = low; k <= high; k++) {
+      markSorted(k, `Element at index ${k} is now in its final position`)
+    }
   }
 
   /**
    * Recursively sort the array
    */
   function quickSort(low: number, high: number): void {
-    if (low < high) {
+    if (low < high && high - low + 1 <= options.cutoff) {
+      insertionSort(low, high)
+    } else if (low < high) {
       // Mark the range being processed
       steps.push({
         action: 'mark-range',
         data: {
-          array: [...array],
           range: [low, high],
-          sorted: [...sorted],
         },
         description: `Processing subarray [${low}, ${high}]`,
       })
 
-      const pivotIndex = partition(low, high)
-
-      // Recursively sort elements before and after partition
-      quickSort(low, pivotIndex - 1)
-      quickSort(pivotIndex + 1, high)
-    } else if (low === high && !sorted.includes(low)) {
-      // Single element is already sorted
-      sorted.push(low)
+      const pivotIndex = choosePivot(low, high)
 
       steps.push({
-        action: 'mark-sorted',
+        action: 'mark-pivot',
         data: {
-          array: [...array],
-          sorted: [...sorted],
+          pivot: pivotIndex,
+          range: [low, high],
         },
-        description: `Single element at index ${low} is sorted`,
+        description: `Pivot selected at index ${pivotIndex} (value: ${array[pivotIndex]})`,
       })
+
+      switch (options.partition) {
+        case 'hoare':
+          partitionHoare(low, high, pivotIndex)
+          break
+        case 'three-way':
+          partitionThreeWay(low, high, pivotIndex)
+          break
+        case 'dual-pivot':
+          partitionDualPivot(low, high, pivotIndex)
+          break
+        case 'lomuto':
+        default:
+          partitionLomuto(low, high, pivotIndex)
+      }
+    } else if (low === high) {
+      // Single element is already sorted
+      markSorted(low, `Single element at index ${low} is sorted`)
     }
   }
 
@@ -181,8 +510,7 @@ function sort(inputArray: number[]): SortingResult {
   steps.push({
     action: 'complete',
     data: {
-      array: [...array],
-      sorted: Array.from({ length: n }, (_, i) => i),
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
     },
     description: 'Sorting complete!',
   })
@@ -196,7 +524,19 @@ function sort(inputArray: number[]): SortingResult {
   }
 }
 
+/**
+ * Largest array Quick Sort runs on with the given options
+ * End-element pivots go quadratic on sorted and reversed input, and Lomuto
+ * and dual-pivot partitions on input with many equal values.
+ */
+function maxArraySize(inputOptions?: SortingOptions): number {
+  const { pivot, partition } = resolveSortingOptions(optionsSchema, inputOptions)
+  const balanced = pivot !== 'first' && pivot !== 'last' && (partition === 'hoare' || partition === 'three-way')
+  return balanced ? LINEARITHMIC_MAX_ARRAY_SIZE : QUADRATIC_MAX_ARRAY_SIZE
+}
+
 export const QuickSort: SortingAlgorithm = {
   info,
   sort,
+  maxArraySize,
 }
@@ -0,0 +1,269 @@
+/**
+ * Radix Sort Algorithms
+ *
+ * Non-comparison sorts that distribute elements into one bucket per digit
+ * value, working through the keys one digit at a time. Provided in two variants:
+ * - LSD (least significant digit first): stable passes over the whole array
+ * - MSD (most significant digit first): recursively sorts each bucket's segment
+ *
+ * Keys are taken relative to the minimum value, so negative numbers work too.
+ *
+ * Time Complexity: O(d · (n + b)) for d digits in base b
+ * Space Complexity: O(n + b)
+ * Stable: Yes
+ */
+
+import type {
+  SortingAlgorithm,
+  SortingAlgorithmInfo,
+  SortingOptions,
+  SortingOptionsSchema,
+  SortingResult,
+  SortingStep,
+} from '../types'
+import { LINEARITHMIC_MAX_ARRAY_SIZE } from '../types'
+import { resolveSortingOptions } from '../options'
+
+/**
+ * Default radix (number of buckets per pass)
+ */
+export const DEFAULT_RADIX_BASE = 10
+
+/**
+ * Options for Radix Sort
+ */
+export type RadixSortOptions = {
+  /** Number of buckets per pass */
+  base: number
+}
+
+const optionsSchema: SortingOptionsSchema<RadixSortOptions> = {
+  defaults: {
+    base: DEFAULT_RADIX_BASE,
+  },
+  fields: {
+    base: {
+      label: 'Base',
+      control: 'number',
+      min: 2,
+      max: 64,
+      step: 1,
+      hint: 'Number of buckets per pass',
+    },
+  },
+  validation: {
+    base: [
+      {
+        validate: (v) => Number.isInteger(v),
+        message: 'Base must be a whole number',
+      },
+    ],
+  },
+}
+
+/**
+ * Shared state and distribution pass used by both variants
+ */
+function createDistributor(inputArray: number[], base: number) {
+  const array = [...inputArray]
+  const n = array.length
+  const steps: SortingStep[] = []
+  const min = n > 0 ? array.reduce((a, b) => Math.min(a, b)) : 0
+  const maxKey = n > 0 ? array.reduce((a, b) => Math.max(a, b)) - min : 0
+
+  const counters = {
+    swaps: 0,
+    arrayAccesses: n,
+  }
+
+  const digitOf = (value: number, exp: number): number =>
+    Math.floor((value - min) / exp) % base
+
+  /**
+   * Distribute [low, high] into buckets by the digit at exp and gather them back
+   * @returns The gathered segment boundaries of each non-empty bucket
+   */
+  function pass(low: number, high: number, exp: number, markSorted: boolean): [number, number][] {
+    const buckets: number[][] = Array.from({ length: base }, () => [])
+
+    steps.push({
+      action: 'bucket-init',
+      data: {
+        bucketCount: base,
+        range: [low, high],
+      },
+      description: `Distribute [${low}, ${high}] by the base-${base} digit worth ${exp}`,
+    })
+
+    for (let i = low; i <= high; i++) {
+      const value = array[i]!
+      const bucket = digitOf(value, exp)
+      buckets[bucket]!.push(value)
+      counters.arrayAccesses++
+
+      steps.push({
+        action: 'bucket-distribute',
+        data: {
+          bucketPush: { bucket, value },
+          reading: [i],
+          range: [low, high],
+        },
+        description: `Put value ${value} into bucket ${bucket}`,
+      })
+    }
+
+    const segments: [number, number][] = []
+    let index = low
+    for (let b = 0; b < base; b++) {
+      const bucket = buckets[b]!
+      const start = index
+
+      while (bucket.length > 0) {
+        const value = bucket.shift()!
+        array[index] = value
+        counters.arrayAccesses++
+        counters.swaps++
+
+        steps.push({
+          action: 'bucket-collect',
+          data: {
+            bucketPop: b,
+            setting: { index, value },
+            range: [low, high],
+            sortedAdded: markSorted ? [index] : undefined,
+          },
+          description: `Gather value ${value} from bucket ${b} into index ${index}`,
+        })
+
+        index++
+      }
+
+      if (index > start) {
+        segments.push([start, index - 1])
+      }
+    }
+
+    return segments
+  }
+
+  /**
+   * Build the final result
+   */
+  function finish(): SortingResult {
+    steps.push({
+      action: 'complete',
+      data: {
+        bucketCount: 0,
+        sortedAdded: Array.from({ length: n }, (_, i) => i),
+      },
+      description: 'Sorting complete!',
+    })
+
+    return {
+      steps,
+      sortedArray: array,
+      comparisons: 0,
+      ...counters,
+    }
+  }
+
+  return { n, maxKey, steps, pass, finish }
+}
+
+const lsdInfo: SortingAlgorithmInfo = {
+  id: 'lsd-radix-sort',
+  name: 'Radix Sort (LSD)',
+  description: 'Distributes elements by each digit, least significant first, in stable passes',
+  timeComplexity: 'O(d · (n + b))',
+  spaceComplexity: 'O(n + b)',
+  stable: true,
+  difficulty: 3,
+  usesBuckets: true,
+  options: optionsSchema,
+}
+
+const msdInfo: SortingAlgorithmInfo = {
+  id: 'msd-radix-sort',
+  name: 'Radix Sort (MSD)',
+  description: 'Distributes elements by their most significant digit, then recursively sorts each bucket',
+  timeComplexity: 'O(d · (n + b))',
+  spaceComplexity: 'O(n + d · b)',
+  stable: true,
+  difficulty: 4,
+  usesBuckets: true,
+  options: optionsSchema,
+}
+
+/**
+ * Generate sorting steps using LSD Radix Sort
+ */
+function sortLSD(inputArray: number[], options?: SortingOptions): SortingResult {
+  const { base } = resolveSortingOptions(optionsSchema, options)
+  const { n, maxKey, pass, finish } = createDistributor(inputArray, base)
+
+  if (n > 0) {
+    // One pass per digit of the largest key (at least one pass)
+    let exp = 1
+    while (true) {
+      const isLast = exp * base > maxKey
+      pass(0, n - 1, exp, isLast)
+      if (isLast) break
+      exp *= base
+    }
+  }
+
+  return finish()
+}
+
+/**
+ * Generate sorting steps using MSD Radix Sort
+ */
+function sortMSD(inputArray: number[], options?: SortingOptions): SortingResult {
+  const { base } = resolveSortingOptions(optionsSchema, options)
+  const { n, maxKey, steps, pass, finish } = createDistributor(inputArray, base)
+
+  /**
+   * Sort [low, high] by the digit at exp and recurse into each bucket
+   */
+  function msd(low: number, high: number, exp: number): void {
+    // A single element, or keys with no digits left, are in final position
+    if (low === high || exp < 1) {
+      steps.push({
+        action: 'mark-sorted',
+        data: {
+          sortedAdded: Array.from({ length: high - low + 1 }, (_, i) => low + i),
+        },
+        description: `Segment [${low}, ${high}] is sorted`,
+      })
+      return
+    }
+
+    const segments = pass(low, high, exp, false)
+    for (const [start, end] of segments) {
+      msd(start, end, exp / base)
+    }
+  }
+
+  if (n > 0) {
+    // Start from the most significant digit of the largest key
+    let exp = 1
+    while (exp * base <= maxKey) {
+      exp *= base
+    }
+    msd(0, n - 1, exp)
+  }
+
+  return finish()
+}
+
+export const LSDRadixSort: SortingAlgorithm = {
+  info: lsdInfo,
+  sort: sortLSD,
+  maxArraySize: () => LINEARITHMIC_MAX_ARRAY_SIZE,
+}
+
+export const MSDRadixSort: SortingAlgorithm = {
+  info: msdInfo,
+  sort: sortMSD,
+  maxArraySize: () => LINEARITHMIC_MAX_ARRAY_SIZE,
+}
@@ -11,6 +11,7 @@
  */
 
 import type { SortingAlgorithm, SortingAlgorithmInfo, SortingResult, SortingStep } from '../types'
+import { QUADRATIC_MAX_ARRAY_SIZE } from '../types'
 
 const info: SortingAlgorithmInfo = {
   id: 'selection-sort',
@@ -29,7 +30,6 @@ function sort(inputArray: number[]): SortingResult {
   const array = [...inputArray]
   const n = array.length
   const steps: SortingStep[] = []
-  const sorted: number[] = []
 
   let comparisons = 0
   let swaps = 0
@@ -43,9 +43,7 @@ function sort(inputArray: number[]): SortingResult {
     steps.push({
       action: 'mark-range',
       data: {
-        array: [...array],
         range: [i, n - 1],
-        sorted: [...sorted],
       },
       description: `Finding minimum in range [${i}, ${n - 1}]`,
     })
@@ -58,10 +56,8 @@ function sort(inputArray: number[]): SortingResult {
       steps.push({
         action: 'compare',
         data: {
-          array: [...array],
           comparing: [minIndex, j],
           range: [i, n - 1],
-          sorted: [...sorted],
         },
         description: `Compare current minimum (index ${minIndex}) with element at index ${j}`,
       })
@@ -82,36 +78,27 @@ function sort(inputArray: number[]): SortingResult {
       steps.push({
         action: 'swap',
         data: {
-          array: [...array],
           swapping: [i, minIndex],
-          sorted: [...sorted],
         },
         description: `Swap minimum element at index ${minIndex} with index ${i}`,
       })
     }
 
     // Mark current position as sorted
-    sorted.push(i)
-
     steps.push({
       action: 'mark-sorted',
       data: {
-        array: [...array],
-        sorted: [...sorted],
+        sortedAdded: [i],
       },
       description: `Element at index ${i} is now in its final position`,
     })
   }
 
-  // Mark the last element as sorted
-  sorted.push(n - 1)
-
   // Final completion step
   steps.push({
     action: 'complete',
     data: {
-      array: [...array],
-      sorted: Array.from({ length: n }, (_, i) => i),
+      sortedAdded: Array.from({ length: n }, (_, i) => i),
     },
     description: 'Sorting complete!',
   })
@@ -128,4 +115,5 @@ function sort(inputArray: number[]): SortingResult {
 export const SelectionSort: SortingAlgorithm = {
   info,
   sort,
+  maxArraySize: () => QUADRATIC_MAX_ARRAY_SIZE,
 }
@@ -8,13 +8,31 @@
 export { BubbleSort } from './BubbleSort'
 export { SelectionSort } from './SelectionSort'
 export { InsertionSort } from './InsertionSort'
-export { QuickSort } from './QuickSort'
+export {
+  QuickSort,
+  DEFAULT_QUICK_SORT_OPTIONS,
+  PIVOT_STRATEGY_NAMES,
+  PARTITION_SCHEME_NAMES,
+} from './QuickSort'
+export type { PivotStrategy, PartitionScheme, QuickSortOptions } from './QuickSort'
+export { MergeSort, BottomUpMergeSort } from './MergeSort'
+export { HeapSort } from './HeapSort'
+export { CountingSort } from './CountingSort'
+export { BucketSort } from './BucketSort'
+export { LSDRadixSort, MSDRadixSort, DEFAULT_RADIX_BASE } from './RadixSort'
+export type { RadixSortOptions } from './RadixSort'
 
 import { BubbleSort } from './BubbleSort'
 import { SelectionSort } from './SelectionSort'
 import { InsertionSort } from './InsertionSort'
 import { QuickSort } from './QuickSort'
-import type { SortingAlgorithm } from '../types'
+import { MergeSort, BottomUpMergeSort } from './MergeSort'
+import { HeapSort } from './HeapSort'
+import { CountingSort } from './CountingSort'
+import { BucketSort } from './BucketSort'
+import { LSDRadixSort, MSDRadixSort } from './RadixSort'
+import type { SortingAlgorithm, SortingOptions } from '../types'
+import { GENERATED_ARRAY_LIMITS } from '../distributions'
 
 /**
  * All available sorting algorithms
@@ -24,6 +42,13 @@ export const SORTING_ALGORITHMS: SortingAlgorithm[] = [
   SelectionSort,
   InsertionSort,
   QuickSort,
+  MergeSort,
+  BottomUpMergeSort,
+  HeapSort,
+  CountingSort,
+  BucketSort,
+  LSDRadixSort,
+  MSDRadixSort,
 ]
 
 /**
@@ -32,3 +57,12 @@ export const SORTING_ALGORITHMS: SortingAlgorithm[] = [
 export function getAlgorithmById(id: string): SortingAlgorithm | undefined {
   return SORTING_ALGORITHMS.find(algo => algo.info.id === id)
 }
+
+/**
+ * Largest array an algorithm runs on with the given options
+ * @param algorithm Algorithm to check
+ * @param options Algorithm options (missing values use defaults)
+ */
+export function getMaxArraySize(algorithm: SortingAlgorithm, options?: SortingOptions): number {
+  return Math.min(GENERATED_ARRAY_LIMITS.maxSize, algorithm.maxArraySize?.(options) ?? Number.POSITIVE_INFINITY)
+}
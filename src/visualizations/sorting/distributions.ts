@@ -0,0 +1,182 @@
+/**
+ * Input distributions for sorting visualizations
+ *
+ * Named generators for the shapes of input that make algorithm behavior
+ * interesting (nearly sorted, reversed, few unique values, ...), plus
+ * parsing and validation of user-entered arrays.
+ */
+
+import { ConfigValidationError } from '../core/ConfigManager'
+import { createRandom } from '../../utils/random'
+
+/**
+ * Shape of a generated input array
+ */
+export type InputDistribution =
+  | 'random'
+  | 'nearly-sorted'
+  | 'reversed'
+  | 'few-unique'
+  | 'sawtooth'
+  | 'organ-pipe'
+  | 'gaussian'
+
+/**
+ * Display names for input distributions
+ */
+export const INPUT_DISTRIBUTION_NAMES: Record<InputDistribution, string> = {
+  random: 'Random',
+  'nearly-sorted': 'Nearly sorted',
+  reversed: 'Reversed',
+  'few-unique': 'Few unique',
+  sawtooth: 'Sawtooth',
+  'organ-pipe': 'Organ pipe',
+  gaussian: 'Gaussian',
+}
+
+/**
+ * Limits for generated arrays, checked by the sorting config schema
+ * Algorithms with more steps per element allow smaller arrays (see maxArraySize).
+ */
+export const GENERATED_ARRAY_LIMITS = {
+  maxSize: 100_000,
+  minValue: 0,
+  maxValue: 1000,
+}
+
+/**
+ * Limits for user-entered arrays
+ */
+export const CUSTOM_ARRAY_LIMITS = {
+  minLength: 2,
+  maxLength: 500,
+  minValue: 0,
+  maxValue: 1000,
+}
+
+/**
+ * Generate an array with the given distribution
+ * The same arguments always produce the same array.
+ * @param distribution Shape of the array
+ * @param size Number of elements
+ * @param minValue Smallest value that may appear
+ * @param maxValue Largest value that may appear
+ * @param seed Seed for the random parts of the distribution
+ */
+export function generateArray(
+  distribution: InputDistribution,
+  size: number,
+  minValue: number,
+  maxValue: number,
+  seed: number
+): number[] {
+  const random = createRandom(seed)
+  const span = maxValue - minValue
+
+  const randomValue = (): number => minValue + Math.floor(random() * (span + 1))
+
+  /** Value at fraction t (0-1) of the way from minValue to maxValue */
+  const ramp = (t: number): number => minValue + Math.round(span * t)
+
+  /** Position of index i in [0, 1] across the array */
+  const position = (i: number): number => (size > 1 ? i / (size - 1) : 0)
+
+  switch (distribution) {
+    case 'nearly-sorted': {
+      const array = Array.from({ length: size }, (_, i) => ramp(position(i)))
+      // Swap a few neighbouring pairs out of place
+      const swaps = Math.max(1, Math.round(size * 0.05))
+      for (let k = 0; k < swaps && size > 1; k++) {
+        const i = Math.floor(random() * (size - 1))
+        const j = Math.min(size - 1, i + 1 + Math.floor(random() * 3))
+        const temp = array[i]!
+        array[i] = array[j]!
+        array[j] = temp
+      }
+      return array
+    }
+
+    case 'reversed':
+      return Array.from({ length: size }, (_, i) => ramp(1 - position(i)))
+
+    case 'few-unique': {
+      const levels = Math.min(5, size)
+      return Array.from({ length: size }, () =>
+        ramp(levels > 1 ? Math.floor(random() * levels) / (levels - 1) : 0)
+      )
+    }
+
+    case 'sawtooth': {
+      const period = Math.max(2, Math.ceil(size / 4))
+      return Array.from({ length: size }, (_, i) => ramp((i % period) / (period - 1)))
+    }
+
+    case 'organ-pipe': {
+      const half = (size - 1) / 2
+      return Array.from({ length: size }, (_, i) =>
+        ramp(half > 0 ? 1 - Math.abs(i - half) / half : 0)
+      )
+    }
+
+    case 'gaussian':
+      return Array.from({ length: size }, () => {
+        // Box-Muller transform, centered with 3 standard deviations to either end
+        const u = 1 - random()
+        const v = random()
+        const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+        return ramp(Math.min(1, Math.max(0, 0.5 + z / 6)))
+      })
+
+    case 'random':
+    default:
+      return Array.from({ length: size }, randomValue)
+  }
+}
+
+/**
+ * Parse a comma-separated list of values into an array
+ * @param text User input, e.g. "5, 3, 8, 1"
+ * @throws ConfigValidationError if the input is not a valid array
+ */
+export function parseArrayInput(text: string): number[] {
+  const parts = text
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+
+  const values = parts.map(part => {
+    const value = Number(part)
+    if (!Number.isInteger(value)) {
+      throw new ConfigValidationError('array', text, `"${part}" is not a whole number`)
+    }
+    return value
+  })
+
+  validateArray(values)
+  return values
+}
+
+/**
+ * Check that an array can be visualized
+ * @param values Array to check
+ * @throws ConfigValidationError if the array is too short, too long or out of range
+ */
+export function validateArray(values: number[]): void {
+  const { minLength, maxLength, minValue, maxValue } = CUSTOM_ARRAY_LIMITS
+
+  if (values.length < minLength) {
+    throw new ConfigValidationError('array', values, `Enter at least ${minLength} values`)
+  }
+  if (values.length > maxLength) {
+    throw new ConfigValidationError('array', values, `Enter at most ${maxLength} values`)
+  }
+
+  const outOfRange = values.find(value => !Number.isInteger(value) || value < minValue || value > maxValue)
+  if (outOfRange !== undefined) {
+    throw new ConfigValidationError(
+      'array',
+      values,
+      `Values must be whole numbers from ${minValue} to ${maxValue} (got ${outOfRange})`
+    )
+  }
+}
@@ -3,16 +3,20 @@
  *
  * This module provides:
  * - SortingVisualizer: Main visualization class for sorting algorithms
- * - Sorting algorithms: BubbleSort, SelectionSort, InsertionSort, QuickSort
+ * - Sorting algorithms: comparison sorts (Bubble, Selection, Insertion, Quick, Merge, Heap)
+ *   and distribution sorts (Counting, Bucket, LSD/MSD Radix)
+ * - Views: bars, scatter plot, color spectrum, disparity circle and color wheel
  * - Types and interfaces for the sorting system
  */
 
 import { VisualizationRegistry } from '../core'
 import { SortingVisualizer } from './SortingVisualizer'
+import { SORTING_VISUALIZER_METADATA } from './metadata'
 import type { SortingConfig } from './types'
 
 // Main visualizer
 export { SortingVisualizer } from './SortingVisualizer'
+export { SORTING_VISUALIZER_METADATA } from './metadata'
 
 // Algorithms
 export {
@@ -20,37 +24,110 @@ export {
   SelectionSort,
   InsertionSort,
   QuickSort,
+  DEFAULT_QUICK_SORT_OPTIONS,
+  PIVOT_STRATEGY_NAMES,
+  PARTITION_SCHEME_NAMES,
+  MergeSort,
+  BottomUpMergeSort,
+  HeapSort,
+  CountingSort,
+  BucketSort,
+  LSDRadixSort,
+  MSDRadixSort,
+  DEFAULT_RADIX_BASE,
   SORTING_ALGORITHMS,
   getAlgorithmById,
+  getMaxArraySize,
+} from './algorithms'
+export type {
+  PivotStrategy,
+  PartitionScheme,
+  QuickSortOptions,
+  RadixSortOptions,
 } from './algorithms'
 
 // Types
 export type {
   SortingConfig,
+  SwapMotion,
   SortingAction,
   SortingStepData,
   SortingStep,
+  SortingKeyframe,
+  SortingState,
+  SortingStepCounts,
   SortingAlgorithmInfo,
+  SortingOptionValue,
+  SortingOptions,
+  SortingOptionField,
+  SortingOptionsSchema,
   SortingResult,
   SortingAlgorithm,
   BarState,
   Bar,
+  AuxBarState,
+  AuxBar,
+} from './types'
+
+export {
+  DEFAULT_SORTING_CONFIG,
+  SORTING_CONFIG_SCHEMA,
+  SORTING_CONFIG_RULES,
+  QUADRATIC_MAX_ARRAY_SIZE,
+  LINEARITHMIC_MAX_ARRAY_SIZE,
+  SORTING_CONFIG_FIELDS,
+  SWAP_MOTION_NAMES,
 } from './types'
 
-export { DEFAULT_SORTING_CONFIG } from './types'
+// Views
+export {
+  SORTING_VIEWS,
+  SORTING_VIEW_NAMES,
+  BAR_COLORING_NAMES,
+  SORTING_PALETTE_NAMES,
+  BAR_STATE_COLORS,
+  getBarFill,
+  getBarHighlight,
+  getBarSlot,
+  getSortedPositions,
+  distanceFromSorted,
+  drawBar,
+} from './views'
+export type {
+  SortingViewName,
+  SortingView,
+  SortingViewFrame,
+  SortingViewBar,
+  BarColoring,
+  SortingPalette,
+} from './views'
+
+// Step helpers
+export { applySortingStep, buildKeyframes, countSortingStep, KEYFRAME_INTERVAL } from './steps'
+
+// Input distributions
+export {
+  generateArray,
+  parseArrayInput,
+  validateArray,
+  INPUT_DISTRIBUTION_NAMES,
+  CUSTOM_ARRAY_LIMITS,
+  GENERATED_ARRAY_LIMITS,
+} from './distributions'
+export type { InputDistribution } from './distributions'
+
+// Permalinks
+export { encodeSortingPermalink, decodeSortingPermalink } from './permalink'
+export type { SortingPermalinkState } from './permalink'
+
+// Algorithm option helpers
+export { resolveSortingOptions, validateSortingOptions } from './options'
 
 /**
  * Register SortingVisualizer with the visualization registry
  * This allows the visualization to be discovered and instantiated via the registry
  */
 VisualizationRegistry.register(
-  {
-    id: 'sorting-visualizer',
-    name: 'Sorting Visualizer',
-    description: 'Visualize sorting algorithms step by step with interactive controls',
-    category: 'sorting',
-    tags: ['sorting', 'algorithms', 'comparison', 'interactive'],
-    difficulty: 1,
-  },
+  SORTING_VISUALIZER_METADATA,
   (config?: Partial<SortingConfig>) => new SortingVisualizer(config)
 )
@@ -0,0 +1,21 @@
+/**
+ * Sorting visualization metadata
+ *
+ * Kept apart from the implementation so the gallery can list the
+ * visualization without loading it (see visualizations/catalog.ts).
+ */
+
+import type { VisualizationMetadata } from '../core/types'
+
+/**
+ * Registry metadata for the sorting visualizer
+ */
+export const SORTING_VISUALIZER_METADATA: VisualizationMetadata = {
+  id: 'sorting-visualizer',
+  name: 'Sorting Visualizer',
+  description: 'Visualize sorting algorithms step by step with interactive controls',
+  category: 'sorting',
+  tags: ['sorting', 'algorithms', 'comparison', 'interactive'],
+  difficulty: 1,
+  path: '/sorting',
+}
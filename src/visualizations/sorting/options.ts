@@ -0,0 +1,72 @@
+/**
+ * Algorithm options helpers
+ *
+ * Algorithms declare their options as a typed SortingOptionsSchema, which
+ * SortingAlgorithmInfo holds as is; these helpers validate option values
+ * against it before the algorithm runs.
+ */
+
+import { ConfigValidationError } from '../core/ConfigManager'
+import type { SortingOptions, SortingOptionsSchema } from './types'
+
+/**
+ * Validate option values and merge them over the schema defaults
+ * @param schema Options schema of the algorithm
+ * @param values Option values to apply (missing values use defaults)
+ * @throws ConfigValidationError if an option is unknown or invalid
+ */
+export function resolveSortingOptions<T extends SortingOptions>(
+  schema: SortingOptionsSchema<T>,
+  values: SortingOptions = {}
+): T {
+  validateSortingOptions(schema, values)
+  return { ...schema.defaults, ...values } as T
+}
+
+/**
+ * Validate option values against a schema
+ * @param schema Options schema of the algorithm
+ * @param values Option values to check
+ * @throws ConfigValidationError if an option is unknown or invalid
+ */
+export function validateSortingOptions<T extends SortingOptions>(
+  schema: SortingOptionsSchema<T>,
+  values: SortingOptions
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (!Object.prototype.hasOwnProperty.call(schema.defaults, key)) {
+      throw new ConfigValidationError(key, value, 'Unknown option')
+    }
+
+    const typedKey = key as keyof T
+    const field = schema.fields[typedKey]
+    const expectedType = typeof schema.defaults[typedKey]
+
+    if (typeof value !== expectedType || (typeof value === 'number' && Number.isNaN(value))) {
+      throw new ConfigValidationError(key, value, `${field.label} must be a ${expectedType}`)
+    }
+
+    if (field.choices && !Object.prototype.hasOwnProperty.call(field.choices, String(value))) {
+      const allowed = Object.values(field.choices).join(', ')
+      throw new ConfigValidationError(key, value, `${field.label} must be one of: ${allowed}`)
+    }
+
+    if (typeof value === 'number') {
+      if (field.min !== undefined && value < field.min) {
+        throw new ConfigValidationError(key, value, `${field.label} must be at least ${field.min}`)
+      }
+      if (field.max !== undefined && value > field.max) {
+        throw new ConfigValidationError(key, value, `${field.label} must be at most ${field.max}`)
+      }
+    }
+
+    const rules = schema.validation?.[typedKey]
+    if (rules) {
+      for (const rule of rules) {
+        if (!rule.validate(value as T[keyof T])) {
+          throw new ConfigValidationError(key, value, rule.message)
+        }
+      }
+    }
+  }
+}
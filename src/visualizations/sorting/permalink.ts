@@ -0,0 +1,161 @@
+/**
+ * Sorting session permalinks
+ *
+ * Serializes the state of a sorting session (algorithm, options, input,
+ * speed and timeline position) to a URL query string and back, so a link
+ * reproduces exactly what the sender was looking at.
+ */
+
+import type { SortingOptions } from './types'
+import type { InputDistribution } from './distributions'
+import { INPUT_DISTRIBUTION_NAMES, parseArrayInput } from './distributions'
+import { getAlgorithmById } from './algorithms'
+import { validateSortingOptions } from './options'
+import { isValidSeed } from '../../utils/random'
+
+/**
+ * Sorting session state that can be shared through a link
+ */
+export interface SortingPermalinkState {
+  /** Algorithm ID */
+  algorithm: string
+  /** Algorithm options that differ from the defaults */
+  options: SortingOptions
+  /** Custom array (takes precedence over the generated array) */
+  array: number[] | null
+  /** Seed for array generation */
+  seed: number
+  /** Array size for generated arrays */
+  size: number
+  /** Input distribution for generated arrays */
+  distribution: InputDistribution
+  /** Speed preset name */
+  speed: string
+  /** Number of steps executed */
+  step: number
+}
+
+/** Prefix of query parameters holding algorithm options */
+const OPTION_PREFIX = 'opt.'
+
+/**
+ * Encode session state as a query string (without the leading '?')
+ * @param state Session state
+ */
+export function encodeSortingPermalink(state: SortingPermalinkState): string {
+  const params = new URLSearchParams()
+
+  params.set('algo', state.algorithm)
+
+  const defaults = getAlgorithmById(state.algorithm)?.info.options?.defaults ?? {}
+  for (const [key, value] of Object.entries(state.options)) {
+    if (defaults[key] !== value) {
+      params.set(`${OPTION_PREFIX}${key}`, String(value))
+    }
+  }
+
+  if (state.array) {
+    params.set('array', state.array.join(','))
+  } else {
+    params.set('seed', state.seed.toString())
+    params.set('size', state.size.toString())
+    params.set('dist', state.distribution)
+  }
+
+  params.set('speed', state.speed)
+
+  if (state.step > 0) {
+    params.set('step', state.step.toString())
+  }
+
+  return params.toString()
+}
+
+/**
+ * Decode session state from a query string
+ * Unknown or invalid values are left out so the caller keeps its defaults.
+ * @param query Query string (with or without the leading '?') or parsed query parameters
+ */
+export function decodeSortingPermalink(
+  query: string | Record<string, string>
+): Partial<SortingPermalinkState> {
+  const params = new URLSearchParams(query)
+  const state: Partial<SortingPermalinkState> = {}
+
+  const algorithm = getAlgorithmById(params.get('algo') ?? '')
+  if (algorithm) {
+    state.algorithm = algorithm.info.id
+
+    const schema = algorithm.info.options
+    if (schema) {
+      const options: SortingOptions = {}
+
+      for (const [param, raw] of params) {
+        if (!param.startsWith(OPTION_PREFIX)) continue
+
+        const key = param.slice(OPTION_PREFIX.length)
+        const defaultValue = schema.defaults[key]
+        if (defaultValue === undefined) continue
+
+        const value =
+          typeof defaultValue === 'number' ? Number(raw)
+          : typeof defaultValue === 'boolean' ? raw === 'true'
+          : raw
+
+        try {
+          validateSortingOptions(schema, { [key]: value })
+          options[key] = value
+        } catch {
+          console.warn(`Ignoring invalid option "${key}" in link`)
+        }
+      }
+
+      state.options = options
+    }
+  }
+
+  const array = params.get('array')
+  if (array !== null) {
+    try {
+      state.array = parseArrayInput(array)
+    } catch {
+      console.warn('Ignoring invalid array in link')
+    }
+  }
+
+  const seed = parseInteger(params.get('seed'))
+  if (isValidSeed(seed)) {
+    state.seed = seed
+  }
+
+  const size = parseInteger(params.get('size'))
+  if (size !== null && size > 0) {
+    state.size = size
+  }
+
+  const distribution = params.get('dist')
+  if (distribution !== null && Object.prototype.hasOwnProperty.call(INPUT_DISTRIBUTION_NAMES, distribution)) {
+    state.distribution = distribution as InputDistribution
+  }
+
+  const speed = params.get('speed')
+  if (speed) {
+    state.speed = speed
+  }
+
+  const step = parseInteger(params.get('step'))
+  if (step !== null && step >= 0) {
+    state.step = step
+  }
+
+  return state
+}
+
+/**
+ * Parse a whole number, returning null if the value is missing or not an integer
+ */
+function parseInteger(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isInteger(parsed) ? parsed : null
+}
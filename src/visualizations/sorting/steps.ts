@@ -0,0 +1,163 @@
+/**
+ * Helpers for working with delta-encoded sorting steps
+ */
+
+import type { SortingKeyframe, SortingState, SortingStep, SortingStepCounts, SortingStepData } from './types'
+
+/**
+ * Number of steps between keyframes
+ */
+export const KEYFRAME_INTERVAL = 256
+
+/**
+ * Apply the changes described by a step to a sorting state in place
+ * @param state State to update
+ * @param data Step data to apply
+ */
+export function applySortingStep(state: SortingState, data: SortingStepData): void {
+  const { array, sorted, aux } = state
+
+  if (data.swapping) {
+    const [i, j] = data.swapping
+    const temp = array[i]!
+    array[i] = array[j]!
+    array[j] = temp
+  }
+
+  if (data.setting) {
+    array[data.setting.index] = data.setting.value
+  }
+
+  if (data.auxSetting) {
+    const { index, value } = data.auxSetting
+    while (aux.length < index) {
+      aux.push(null)
+    }
+    aux[index] = value
+  }
+
+  if (data.auxClear) {
+    const [start, end] = data.auxClear
+    for (let i = start; i <= end && i < aux.length; i++) {
+      aux[i] = null
+    }
+  }
+
+  if (data.heapSize !== undefined) {
+    state.heapSize = data.heapSize
+  }
+
+  if (data.bucketCount !== undefined) {
+    state.buckets = Array.from({ length: data.bucketCount }, () => [])
+  }
+
+  if (data.bucketPush) {
+    state.buckets[data.bucketPush.bucket]?.push(data.bucketPush.value)
+  }
+
+  if (data.bucketPop !== undefined) {
+    state.buckets[data.bucketPop]?.shift()
+  }
+
+  if (data.sortedAdded) {
+    for (const index of data.sortedAdded) {
+      sorted.add(index)
+    }
+  }
+}
+
+/**
+ * Add a step's operations to running counts
+ * @param counts Counts to update
+ * @param step Step being applied
+ */
+export function countSortingStep(counts: SortingStepCounts, step: SortingStep): void {
+  switch (step.action) {
+    case 'compare':
+      counts.comparisons++
+      // Reading 2 elements to compare
+      counts.arrayAccesses += 2
+      break
+
+    case 'swap':
+      counts.swaps++
+      // Reading 2 elements and writing 2 elements
+      counts.arrayAccesses += 4
+      break
+
+    case 'set':
+      // Writing 1 element
+      counts.arrayAccesses++
+      if (step.data.setting) {
+        // Reading 1 element (the value being set)
+        counts.arrayAccesses++
+      }
+      break
+
+    case 'aux-write':
+      // Reading 1 element and writing it into the auxiliary array
+      counts.arrayAccesses += 2
+      break
+
+    case 'aux-compare':
+      counts.comparisons++
+      // Reading 2 elements from the auxiliary array
+      counts.arrayAccesses += 2
+      break
+
+    case 'bucket-distribute':
+      // Reading 1 element to drop it into a bucket
+      counts.arrayAccesses++
+      break
+
+    case 'bucket-collect':
+      // Writing 1 element taken from a bucket
+      counts.arrayAccesses++
+      break
+  }
+}
+
+/**
+ * Build periodic keyframes by replaying steps from the initial array
+ * The first keyframe is always the initial state (step 0)
+ * @param initialArray Array before any step is applied
+ * @param steps Steps to replay
+ * @param interval Number of steps between keyframes
+ */
+export function buildKeyframes(
+  initialArray: number[],
+  steps: SortingStep[],
+  interval = KEYFRAME_INTERVAL
+): SortingKeyframe[] {
+  const state: SortingState = {
+    array: [...initialArray],
+    sorted: new Set(),
+    aux: [],
+    heapSize: null,
+    buckets: [],
+  }
+  const counts: SortingStepCounts = { comparisons: 0, swaps: 0, arrayAccesses: 0 }
+  const keyframes: SortingKeyframe[] = [
+    { stepIndex: 0, array: [...initialArray], sorted: [], aux: [], heapSize: null, buckets: [], counts: { ...counts } },
+  ]
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i]!
+    applySortingStep(state, step.data)
+    countSortingStep(counts, step)
+
+    if ((i + 1) % interval === 0) {
+      keyframes.push({
+        stepIndex: i + 1,
+        array: [...state.array],
+        sorted: [...state.sorted],
+        aux: [...state.aux],
+        heapSize: state.heapSize,
+        buckets: state.buckets.map(bucket => [...bucket]),
+        counts: { ...counts },
+      })
+    }
+  }
+
+  return keyframes
+}
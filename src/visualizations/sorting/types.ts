@@ -2,7 +2,27 @@
  * Types and interfaces for the sorting visualization module
  */
 
-import type { BaseVisualizationConfig, AnimationStep } from '../core/types'
+import type { BaseVisualizationConfig, AnimationStep, PerformanceMetrics } from '../core/types'
+import type { ConfigSchema, ConfigFields, CrossFieldRule } from '../core/ConfigManager'
+import { BASE_CONFIG_SCHEMA, BASE_CONFIG_FIELDS } from '../core/ConfigManager'
+import { INPUT_DISTRIBUTION_NAMES, GENERATED_ARRAY_LIMITS } from './distributions'
+import type { InputDistribution } from './distributions'
+import { SORTING_VIEW_NAMES, BAR_COLORING_NAMES, SORTING_PALETTE_NAMES } from './views'
+import type { SortingViewName, BarColoring, SortingPalette } from './views'
+import { isValidSeed, MAX_SEED } from '../../utils/random'
+
+/**
+ * Path swapped bars take to their new positions
+ */
+export type SwapMotion = 'slide' | 'arc'
+
+/**
+ * Display names for swap motions
+ */
+export const SWAP_MOTION_NAMES: Record<SwapMotion, string> = {
+  slide: 'Slide',
+  arc: 'Arc',
+}
 
 /**
  * Configuration for the sorting visualizer
@@ -14,12 +34,28 @@ export interface SortingConfig extends BaseVisualizationConfig {
   minValue: number
   /** Maximum value in array */
   maxValue: number
+  /** Shape of generated arrays */
+  distribution: InputDistribution
+  /** Seed for array generation; the same seed, size, range and distribution give the same array */
+  seed: number
+  /** How the array is drawn */
+  view: SortingViewName
+  /** What decides bar colors; state highlights are outlined when it isn't the state */
+  coloring: BarColoring
+  /** Palette used when coloring by value (and by the color spectrum and wheel views) */
+  palette: SortingPalette
   /** Gap between bars in pixels */
   barGap: number
   /** Padding around visualization in pixels */
   padding: number
   /** Whether to show array values on bars */
   showValues: boolean
+  /** Whether to draw the heap region as a binary tree for heap-based algorithms (arrays of up to 1023 elements) */
+  showHeapTree: boolean
+  /** Share of the step delay spent tweening swapped and set bars into place (0 = no tween) */
+  tweenFraction: number
+  /** Path swapped bars take during the tween */
+  swapMotion: SwapMotion
 }
 
 /**
@@ -33,9 +69,161 @@ export const DEFAULT_SORTING_CONFIG: SortingConfig = {
   arraySize: 50,
   minValue: 5,
   maxValue: 100,
+  distribution: 'random',
+  seed: 1,
+  view: 'bars',
+  coloring: 'state',
+  palette: 'rainbow',
   barGap: 2,
   padding: 20,
   showValues: false,
+  showHeapTree: true,
+  tweenFraction: 0.6,
+  swapMotion: 'slide',
+}
+
+/**
+ * Validation rules for sorting config fields
+ */
+export const SORTING_CONFIG_SCHEMA: ConfigSchema<SortingConfig> = {
+  ...BASE_CONFIG_SCHEMA,
+  arraySize: [
+    {
+      validate: (v) => Number.isInteger(v) && v > 0 && v <= GENERATED_ARRAY_LIMITS.maxSize,
+      message: `Array size must be a whole number from 1 to ${GENERATED_ARRAY_LIMITS.maxSize}`,
+    },
+  ],
+  minValue: [
+    {
+      validate: (v) => Number.isFinite(v) && v >= GENERATED_ARRAY_LIMITS.minValue && v <= GENERATED_ARRAY_LIMITS.maxValue,
+      message: `Minimum value must be from ${GENERATED_ARRAY_LIMITS.minValue} to ${GENERATED_ARRAY_LIMITS.maxValue}`,
+    },
+  ],
+  maxValue: [
+    {
+      validate: (v) => Number.isFinite(v) && v >= GENERATED_ARRAY_LIMITS.minValue && v <= GENERATED_ARRAY_LIMITS.maxValue,
+      message: `Maximum value must be from ${GENERATED_ARRAY_LIMITS.minValue} to ${GENERATED_ARRAY_LIMITS.maxValue}`,
+    },
+  ],
+  distribution: [
+    {
+      validate: (v) => Object.prototype.hasOwnProperty.call(INPUT_DISTRIBUTION_NAMES, v),
+      message: 'Unknown input distribution',
+    },
+  ],
+  seed: [
+    {
+      validate: (v) => isValidSeed(v),
+      message: `Seed must be a whole number from 0 to ${MAX_SEED}`,
+    },
+  ],
+  view: [
+    {
+      validate: (v) => Object.prototype.hasOwnProperty.call(SORTING_VIEW_NAMES, v),
+      message: 'Unknown view',
+    },
+  ],
+  coloring: [
+    {
+      validate: (v) => Object.prototype.hasOwnProperty.call(BAR_COLORING_NAMES, v),
+      message: 'Unknown coloring',
+    },
+  ],
+  palette: [
+    {
+      validate: (v) => Object.prototype.hasOwnProperty.call(SORTING_PALETTE_NAMES, v),
+      message: 'Unknown palette',
+    },
+  ],
+  barGap: [
+    {
+      validate: (v) => Number.isFinite(v) && v >= 0,
+      message: 'Bar gap must be zero or more',
+    },
+  ],
+  padding: [
+    {
+      validate: (v) => Number.isFinite(v) && v >= 0,
+      message: 'Padding must be zero or more',
+    },
+  ],
+  showValues: [
+    {
+      validate: (v) => typeof v === 'boolean',
+      message: 'Show values must be a boolean',
+    },
+  ],
+  showHeapTree: [
+    {
+      validate: (v) => typeof v === 'boolean',
+      message: 'Show heap tree must be a boolean',
+    },
+  ],
+  tweenFraction: [
+    {
+      validate: (v) => Number.isFinite(v) && v >= 0 && v <= 1,
+      message: 'Motion must be between 0 and 1',
+    },
+  ],
+  swapMotion: [
+    {
+      validate: (v) => Object.prototype.hasOwnProperty.call(SWAP_MOTION_NAMES, v),
+      message: 'Unknown swap motion',
+    },
+  ],
+}
+
+/**
+ * Largest array an algorithm that can take quadratic time runs on
+ * Every step is generated before playback starts, and the steps for larger
+ * arrays would not fit in memory.
+ */
+export const QUADRATIC_MAX_ARRAY_SIZE = 1000
+
+/**
+ * Largest array an n log n sort or a radix sort runs on
+ * Their steps for 10,000 elements take about 150 MB and a second to generate.
+ */
+export const LINEARITHMIC_MAX_ARRAY_SIZE = 10_000
+
+/**
+ * Rules for sorting config fields that depend on each other
+ */
+export const SORTING_CONFIG_RULES: CrossFieldRule<SortingConfig>[] = [
+  {
+    fields: ['minValue', 'maxValue'],
+    validate: (config) => config.minValue <= config.maxValue,
+    message: 'Minimum value must not be greater than the maximum value',
+  },
+]
+
+/**
+ * Editable sorting display settings
+ * The array itself (size, range, distribution, seed) is set through the page controls.
+ */
+export const SORTING_CONFIG_FIELDS: ConfigFields<SortingConfig> = {
+  view: { label: 'View', control: 'select', choices: SORTING_VIEW_NAMES },
+  coloring: {
+    label: 'Coloring',
+    control: 'select',
+    choices: BAR_COLORING_NAMES,
+    hint: 'Comparisons and swaps are outlined when bars are not colored by state',
+  },
+  palette: { label: 'Palette', control: 'select', choices: SORTING_PALETTE_NAMES },
+  barGap: { label: 'Bar gap', control: 'range', min: 0, max: 10, step: 1 },
+  padding: { label: 'Padding', control: 'range', min: 0, max: 60, step: 5 },
+  showValues: { label: 'Show values', control: 'checkbox', hint: 'Labels bars with their values when they are wide enough' },
+  showHeapTree: { label: 'Heap tree', control: 'checkbox', hint: 'Draws the heap as a binary tree for heap-based algorithms' },
+  tweenFraction: {
+    label: 'Motion',
+    control: 'range',
+    min: 0,
+    max: 1,
+    step: 0.1,
+    hint: 'Share of each step spent moving bars into place (0 jumps straight there)',
+  },
+  swapMotion: { label: 'Swap path', control: 'select', choices: SWAP_MOTION_NAMES },
+  ...BASE_CONFIG_FIELDS,
 }
 
 /**
@@ -49,26 +237,94 @@ export type SortingAction =
   | 'mark-pivot'
   | 'mark-range'
   | 'clear-marks'
+  | 'aux-write'
+  | 'aux-compare'
+  | 'aux-clear'
+  | 'heap-boundary'
+  | 'bucket-init'
+  | 'bucket-distribute'
+  | 'bucket-collect'
   | 'complete'
 
 /**
  * Data for a sorting animation step
+ *
+ * Steps are delta-encoded: they describe only what changed, and the
+ * visualizer reconstructs the array by applying them in order.
  */
 export interface SortingStepData {
-  /** Array state after this step */
-  array: number[]
   /** Indices being compared */
   comparing?: [number, number]
-  /** Indices being swapped */
+  /** Indices being swapped (the values are exchanged by this step) */
   swapping?: [number, number]
-  /** Index being set to a new value */
+  /** Index being set to a new value (written by this step) */
   setting?: { index: number; value: number }
-  /** Indices that are now sorted */
-  sorted?: number[]
+  /** Indices that became sorted in this step */
+  sortedAdded?: number[]
   /** Index of pivot element */
   pivot?: number
+  /** Index of the second pivot element (dual-pivot partitioning) */
+  secondPivot?: number
   /** Range being processed [start, end] */
   range?: [number, number]
+  /** Main array indices being read */
+  reading?: number[]
+  /** Auxiliary array index being set to a new value (written by this step) */
+  auxSetting?: { index: number; value: number }
+  /** Auxiliary array indices being read or compared */
+  auxReading?: number[]
+  /** Auxiliary array range [start, end] emptied by this step */
+  auxClear?: [number, number]
+  /** New size of the heap region [0, heapSize) set by this step */
+  heapSize?: number
+  /** Number of empty buckets (or count slots) allocated by this step */
+  bucketCount?: number
+  /** Value appended to a bucket by this step */
+  bucketPush?: { bucket: number; value: number }
+  /** Bucket whose first value is removed by this step (usually paired with setting) */
+  bucketPop?: number
+}
+
+/**
+ * Mutable sorting state that steps are applied to
+ */
+export interface SortingState {
+  /** Main array values */
+  array: number[]
+  /** Indices that are sorted */
+  sorted: Set<number>
+  /** Auxiliary (scratch) array values, null where empty */
+  aux: (number | null)[]
+  /** Size of the heap region at the start of the array, null if no heap */
+  heapSize: number | null
+  /** Buckets used by distribution sorts, each holding values in insertion order */
+  buckets: number[][]
+}
+
+/**
+ * Operation counts that steps add to
+ */
+export type SortingStepCounts = Pick<PerformanceMetrics, 'comparisons' | 'swaps' | 'arrayAccesses'>
+
+/**
+ * Full snapshot of the sorting state at a point in the step sequence,
+ * used as a starting point when reconstructing state from deltas
+ */
+export interface SortingKeyframe {
+  /** Number of steps applied to reach this snapshot */
+  stepIndex: number
+  /** Array values */
+  array: number[]
+  /** Indices that are sorted */
+  sorted: number[]
+  /** Auxiliary array values */
+  aux: (number | null)[]
+  /** Size of the heap region, null if no heap */
+  heapSize: number | null
+  /** Bucket contents */
+  buckets: number[][]
+  /** Operation counts of the steps applied so far */
+  counts: SortingStepCounts
 }
 
 /**
@@ -76,6 +332,48 @@ export interface SortingStepData {
  */
 export type SortingStep = AnimationStep<SortingStepData>
 
+/**
+ * Value of a single algorithm option
+ */
+export type SortingOptionValue = string | number | boolean
+
+/**
+ * Options passed to a sorting algorithm, keyed by option name
+ */
+export type SortingOptions = Record<string, SortingOptionValue>
+
+/**
+ * Describes how an algorithm option is presented as a form control
+ */
+export interface SortingOptionField {
+  /** Label shown next to the control */
+  label: string
+  /** Control used to edit the option */
+  control: 'select' | 'number' | 'checkbox' | 'text'
+  /** Choices for select controls, mapping option values to display names */
+  choices?: Record<string, string>
+  /** Minimum value for number controls */
+  min?: number
+  /** Maximum value for number controls */
+  max?: number
+  /** Step for number controls */
+  step?: number
+  /** Short help text */
+  hint?: string
+}
+
+/**
+ * Typed options schema declared by an algorithm
+ */
+export interface SortingOptionsSchema<T extends SortingOptions = SortingOptions> {
+  /** Default value of every option */
+  defaults: T
+  /** Form control description of every option */
+  fields: { [K in keyof T]: SortingOptionField }
+  /** Additional validation rules beyond the field's type, choices and bounds */
+  validation?: ConfigSchema<T>
+}
+
 /**
  * Metadata about a sorting algorithm
  */
@@ -94,6 +392,14 @@ export interface SortingAlgorithmInfo {
   stable: boolean
   /** Difficulty level (1-5) */
   difficulty: number
+  /** Whether the algorithm works through an auxiliary array that should be drawn */
+  usesAuxiliaryArray?: boolean
+  /** Whether the algorithm maintains a binary heap that can be drawn as a tree */
+  usesHeap?: boolean
+  /** Whether the algorithm distributes elements into buckets that should be drawn */
+  usesBuckets?: boolean
+  /** Options the algorithm accepts, if any */
+  options?: SortingOptionsSchema
 }
 
 /**
@@ -121,9 +427,17 @@ export interface SortingAlgorithm {
   /**
    * Generate sorting steps for the given array
    * @param array The array to sort (will be copied, not mutated)
+   * @param options Algorithm options (validated against info.options; missing values use defaults)
    * @returns The sorting result with all animation steps
+   * @throws ConfigValidationError if an option is unknown or invalid
    */
-  sort(array: number[]): SortingResult
+  sort(array: number[], options?: SortingOptions): SortingResult
+  /**
+   * Largest array the algorithm runs on with the given options
+   * (omitted when only the config's array size limit applies)
+   * @param options Algorithm options (missing values use defaults)
+   */
+  maxArraySize?(options?: SortingOptions): number
 }
 
 /**
@@ -138,3 +452,13 @@ export interface Bar {
   value: number
   state: BarState
 }
+
+/**
+ * Auxiliary bar state for rendering
+ */
+export type AuxBarState = 'default' | 'reading' | 'writing'
+
+/**
+ * Auxiliary bar data for rendering (null where the slot is empty)
+ */
+export type AuxBar = { value: number; state: AuxBarState } | null
@@ -0,0 +1,533 @@
+/**
+ * Views for sorting visualizations
+ *
+ * A view draws the main array into a region of the canvas. Views are given
+ * the bars the visualizer keeps (values, highlight states and tweened
+ * positions), so every view shows the same comparisons, swaps and sorted
+ * marks, and a new view needs no changes to the algorithms or steps.
+ *
+ * Bars are filled by state, by value through a palette, or by distance
+ * from their sorted position. When they are not filled by state, state
+ * highlights are drawn as outlines (or overlays where there is no room).
+ *
+ * Fills go through the frame's batch renderer, so large arrays can be
+ * drawn with WebGL; outlines and labels are drawn on the 2D context.
+ */
+
+import type { BatchRenderer } from '../core/BatchRenderer'
+import type { BarState, SortingConfig } from './types'
+import { PALETTES, VIZ_COLORS, interpolateColors } from '../../utils/colors'
+
+/**
+ * Ways of drawing the main array
+ */
+export type SortingViewName = 'bars' | 'scatter' | 'spectrum' | 'disparity' | 'wheel'
+
+/**
+ * Display names for sorting views
+ */
+export const SORTING_VIEW_NAMES: Record<SortingViewName, string> = {
+  bars: 'Bars',
+  scatter: 'Scatter plot',
+  spectrum: 'Color spectrum',
+  disparity: 'Disparity circle',
+  wheel: 'Color wheel',
+}
+
+/**
+ * What decides a bar's fill color
+ */
+export type BarColoring = 'state' | 'value' | 'disparity'
+
+/**
+ * Display names for bar colorings
+ */
+export const BAR_COLORING_NAMES: Record<BarColoring, string> = {
+  state: 'By state',
+  value: 'By value',
+  disparity: 'By distance from sorted',
+}
+
+/**
+ * Palettes bars can be colored with by value
+ */
+export type SortingPalette = 'rainbow' | 'heat' | 'cool' | 'warm' | 'grayscale'
+
+/**
+ * Display names for sorting palettes
+ */
+export const SORTING_PALETTE_NAMES: Record<SortingPalette, string> = {
+  rainbow: 'Rainbow',
+  heat: 'Heat',
+  cool: 'Cool',
+  warm: 'Warm',
+  grayscale: 'Grayscale',
+}
+
+/**
+ * Color mapping for bar states
+ */
+export const BAR_STATE_COLORS: Record<BarState, string> = {
+  default: VIZ_COLORS.barDefault,
+  comparing: VIZ_COLORS.barActive,
+  swapping: '#f59e0b',
+  sorted: VIZ_COLORS.barSorted,
+  pivot: VIZ_COLORS.barPivot,
+  range: '#8b5cf6',
+}
+
+/**
+ * Peak height of an arcing swap, as a share of the view height
+ */
+const SWAP_ARC_RATIO = 0.15
+
+/**
+ * Share of the circle's radius left empty in the middle of the color wheel
+ */
+const WHEEL_HOLE_RATIO = 0.35
+
+/**
+ * Bars narrower than this are filled with their highlight instead of outlined
+ */
+const MIN_OUTLINE_WIDTH = 4
+
+/**
+ * Width of highlight outlines in pixels
+ */
+const OUTLINE_WIDTH = 2
+
+/**
+ * Colors precomputed for value and distance coloring, which would otherwise
+ * build a color string per bar per frame
+ */
+const COLOR_RAMP_LEVELS = 256
+
+/**
+ * Dots smaller than this are drawn as squares
+ */
+const MIN_ROUND_DOT_RADIUS = 2
+
+/**
+ * Widest angle drawn as one straight-edged segment of a wheel wedge
+ */
+const MAX_WEDGE_SEGMENT_ANGLE = 0.05
+
+/**
+ * A bar as handed to a view
+ */
+export interface SortingViewBar {
+  /** Value, part way between the old and new value while a set is tweened */
+  value: number
+  /** Highlight state */
+  state: BarState
+  /** Position in the array, fractional while the bar is moving */
+  position: number
+  /** Height of a hop over other bars (0-1, peaking at 1 halfway through an arcing swap) */
+  lift: number
+  /** Distance of the bar from where its value ends up once sorted (0 when in place) */
+  disparity: number
+}
+
+/**
+ * Everything a view needs to draw one frame
+ */
+export interface SortingViewFrame {
+  /** Context to draw outlines and labels into */
+  ctx: CanvasRenderingContext2D
+  /** Renderer to add fills to */
+  renderer: BatchRenderer
+  /** Left edge of the view's region */
+  left: number
+  /** Top edge of the view's region */
+  top: number
+  /** Width of the view's region */
+  width: number
+  /** Height of the view's region */
+  height: number
+  /** Bars in drawing order: resting bars first, then bars in motion */
+  bars: SortingViewBar[]
+  /** Number of elements in the array */
+  length: number
+  /** Largest value in the array (for scaling) */
+  maxValue: number
+  /** Size of the heap region at the start of the array, null if no heap */
+  heapSize: number | null
+  /** Current sorting config */
+  config: SortingConfig
+}
+
+/**
+ * Draws the main array for a frame
+ */
+export type SortingView = (frame: SortingViewFrame) => void
+
+/**
+ * Index range each value occupies once the array is sorted
+ * @param array Array to sort (not mutated)
+ * @returns First and last sorted index of every value
+ */
+export function getSortedPositions(array: number[]): Map<number, [number, number]> {
+  const sorted = [...array].sort((a, b) => a - b)
+  const positions = new Map<number, [number, number]>()
+  sorted.forEach((value, index) => {
+    const range = positions.get(value)
+    if (range) {
+      range[1] = index
+    } else {
+      positions.set(value, [index, index])
+    }
+  })
+  return positions
+}
+
+/**
+ * Distance of a value at an index from its sorted position
+ * Equal values may end up anywhere in their run, so any index in it counts as in place.
+ * @param value Value at the index
+ * @param index Current index
+ * @param positions Sorted positions from getSortedPositions()
+ */
+export function distanceFromSorted(
+  value: number,
+  index: number,
+  positions: Map<number, [number, number]>
+): number {
+  const range = positions.get(value)
+  if (!range) return 0
+  if (index < range[0]) return range[0] - index
+  if (index > range[1]) return index - range[1]
+  return 0
+}
+
+/**
+ * Palette colors sampled at COLOR_RAMP_LEVELS points, built on first use
+ */
+const paletteRamps: Map<SortingPalette, string[]> = new Map()
+
+/**
+ * Colors from the sorted color to the pivot color, built on first use
+ */
+let disparityRamp: string[] | null = null
+
+/**
+ * Color a 0-1 fraction picks from a ramp
+ */
+function pickFromRamp(ramp: string[], t: number): string {
+  const level = Math.round(Math.min(1, Math.max(0, t)) * (COLOR_RAMP_LEVELS - 1))
+  return ramp[level]!
+}
+
+/**
+ * Color for a value through the configured palette
+ */
+function getValueColor(value: number, frame: SortingViewFrame): string {
+  const { palette } = frame.config
+  let ramp = paletteRamps.get(palette)
+  if (!ramp) {
+    ramp = Array.from({ length: COLOR_RAMP_LEVELS }, (_, i) => PALETTES[palette](i / (COLOR_RAMP_LEVELS - 1)))
+    paletteRamps.set(palette, ramp)
+  }
+  return pickFromRamp(ramp, value / frame.maxValue)
+}
+
+/**
+ * Color for a distance from the sorted position, from the sorted color (in place)
+ * to the pivot color (as far out as possible)
+ * The square root spreads the small distances most bars have for most of a sort.
+ */
+function getDisparityColor(disparity: number, frame: SortingViewFrame): string {
+  if (!disparityRamp) {
+    disparityRamp = Array.from({ length: COLOR_RAMP_LEVELS }, (_, i) =>
+      interpolateColors(VIZ_COLORS.barSorted, VIZ_COLORS.barPivot, i / (COLOR_RAMP_LEVELS - 1))
+    )
+  }
+  return pickFromRamp(disparityRamp, Math.sqrt(disparity / Math.max(1, frame.length - 1)))
+}
+
+/**
+ * Fill color of a bar under the configured coloring
+ * @param bar Bar to color
+ * @param frame Frame being drawn
+ */
+export function getBarFill(bar: SortingViewBar, frame: SortingViewFrame): string {
+  switch (frame.config.coloring) {
+    case 'value':
+      return getValueColor(bar.value, frame)
+    case 'disparity':
+      return getDisparityColor(bar.disparity, frame)
+    case 'state':
+    default:
+      return BAR_STATE_COLORS[bar.state]
+  }
+}
+
+/**
+ * Color a bar's state highlight is drawn in, or null if it needs none
+ * (bars filled by state already show it; default and sorted bars are not highlighted)
+ * @param bar Bar to check
+ * @param frame Frame being drawn
+ */
+export function getBarHighlight(bar: SortingViewBar, frame: SortingViewFrame): string | null {
+  if (frame.config.coloring === 'state') return null
+  if (bar.state === 'default' || bar.state === 'sorted') return null
+  return BAR_STATE_COLORS[bar.state]
+}
+
+/**
+ * Horizontal layout of bars filling a width
+ * The gap shrinks when there are too many bars for it, and bars are at
+ * least a pixel wide (overlapping when there are more bars than pixels).
+ * @param width Width to fill
+ * @param length Number of bars
+ * @param barGap Configured gap between bars
+ * @returns Distance between the left edges of neighbouring bars, and the bar width
+ */
+export function getBarSlot(width: number, length: number, barGap: number): { step: number; barWidth: number } {
+  const gap = Math.min(barGap, width / length / 2)
+  const step = (width + gap) / length
+  return { step, barWidth: Math.max(1, step - gap) }
+}
+
+/**
+ * Draw a single value bar anchored to the bottom of a lane
+ * @param renderer Renderer to add the bar to
+ * @param x Left edge of the bar
+ * @param laneTop Top of the lane
+ * @param barWidth Width of the bar
+ * @param laneHeight Height of the lane (the height of a bar holding maxValue)
+ * @param value Value of the bar
+ * @param maxValue Largest value in the lane
+ * @param color Fill color
+ */
+export function drawBar(
+  renderer: BatchRenderer,
+  x: number,
+  laneTop: number,
+  barWidth: number,
+  laneHeight: number,
+  value: number,
+  maxValue: number,
+  color: string
+): void {
+  const barHeight = (value / maxValue) * laneHeight
+  renderer.rect(x, laneTop + laneHeight - barHeight, barWidth, barHeight, color)
+}
+
+/**
+ * Fill of a stripe or wedge in the value-colored views, which keep
+ * coloring by value when bars are colored by state
+ */
+function getSpectrumFill(bar: SortingViewBar, frame: SortingViewFrame): string {
+  return frame.config.coloring === 'state' ? getValueColor(bar.value, frame) : getBarFill(bar, frame)
+}
+
+/**
+ * Draw a bar as a dot, ringed with its highlight if it has one
+ */
+function drawDot(frame: SortingViewFrame, bar: SortingViewBar, x: number, y: number, radius: number): void {
+  const { ctx, renderer } = frame
+  const highlight = getBarHighlight(bar, frame)
+
+  // Dots too small to ring take their highlight as the fill
+  if (radius < MIN_ROUND_DOT_RADIUS) {
+    renderer.rect(x - radius, y - radius, radius * 2, radius * 2, highlight ?? getBarFill(bar, frame))
+    return
+  }
+
+  ctx.fillStyle = getBarFill(bar, frame)
+  ctx.beginPath()
+  ctx.arc(x, y, radius, 0, Math.PI * 2)
+  ctx.fill()
+
+  if (highlight) {
+    ctx.strokeStyle = highlight
+    ctx.lineWidth = OUTLINE_WIDTH
+    ctx.beginPath()
+    ctx.arc(x, y, radius + OUTLINE_WIDTH, 0, Math.PI * 2)
+    ctx.stroke()
+  }
+}
+
+/**
+ * Add a ring segment from angle start to end, as straight-edged quads
+ */
+function addWedge(
+  renderer: BatchRenderer,
+  centerX: number,
+  centerY: number,
+  innerRadius: number,
+  outerRadius: number,
+  start: number,
+  end: number,
+  color: string
+): void {
+  const segments = Math.max(1, Math.ceil((end - start) / MAX_WEDGE_SEGMENT_ANGLE))
+  const angle = (end - start) / segments
+
+  for (let i = 0; i < segments; i++) {
+    const a = start + i * angle
+    const b = a + angle
+    const cosA = Math.cos(a)
+    const sinA = Math.sin(a)
+    const cosB = Math.cos(b)
+    const sinB = Math.sin(b)
+    renderer.quad(
+      centerX + cosA * innerRadius, centerY + sinA * innerRadius,
+      centerX + cosA * outerRadius, centerY + sinA * outerRadius,
+      centerX + cosB * outerRadius, centerY + sinB * outerRadius,
+      centerX + cosB * innerRadius, centerY + sinB * innerRadius,
+      color
+    )
+  }
+}
+
+/**
+ * Vertical bars, heights by value
+ */
+const barsView: SortingView = (frame) => {
+  const { ctx, renderer, left, top, width, height, bars, length, maxValue, heapSize, config } = frame
+  const { step, barWidth } = getBarSlot(width, length, config.barGap)
+  const outline = barWidth >= MIN_OUTLINE_WIDTH
+  const labels = config.showValues && barWidth >= 20
+
+  for (const bar of bars) {
+    const x = left + bar.position * step
+    const laneTop = top - bar.lift * height * SWAP_ARC_RATIO
+    const barHeight = (bar.value / maxValue) * height
+    const highlight = getBarHighlight(bar, frame)
+
+    // Bars too thin to outline take their highlight as the fill
+    const fill = highlight && !outline ? highlight : getBarFill(bar, frame)
+    drawBar(renderer, x, laneTop, barWidth, height, bar.value, maxValue, fill)
+
+    if (highlight && outline) {
+      const inset = OUTLINE_WIDTH / 2
+      ctx.strokeStyle = highlight
+      ctx.lineWidth = OUTLINE_WIDTH
+      ctx.strokeRect(x + inset, laneTop + height - barHeight + inset, barWidth - OUTLINE_WIDTH, Math.max(0, barHeight - OUTLINE_WIDTH))
+    }
+
+    if (labels) {
+      ctx.fillStyle = '#ffffff'
+      ctx.font = '10px sans-serif'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'bottom'
+      ctx.fillText(Math.round(bar.value).toString(), x + barWidth / 2, laneTop + height - barHeight - 2)
+    }
+  }
+
+  // Mark the end of the heap region
+  if (heapSize !== null && heapSize > 0 && heapSize < length) {
+    const x = left + heapSize * step - (step - barWidth) / 2
+    ctx.strokeStyle = VIZ_COLORS.textSecondary
+    ctx.lineWidth = 1
+    ctx.setLineDash([4, 4])
+    ctx.beginPath()
+    ctx.moveTo(x, top)
+    ctx.lineTo(x, top + height)
+    ctx.stroke()
+    ctx.setLineDash([])
+  }
+}
+
+/**
+ * Dots plotting value against index; a sorted array is a rising line
+ */
+const scatterView: SortingView = (frame) => {
+  const { left, top, width, height, bars, length, maxValue } = frame
+  const slotWidth = width / length
+  const radius = Math.max(1.5, Math.min(slotWidth / 2, 5))
+  const plotHeight = height - radius * 2
+
+  for (const bar of bars) {
+    const x = left + (bar.position + 0.5) * slotWidth
+    const y = top + radius + plotHeight * (1 - bar.value / maxValue) - bar.lift * height * SWAP_ARC_RATIO
+    drawDot(frame, bar, x, y, radius)
+  }
+}
+
+/**
+ * A strip of stripes colored by value; a sorted array is a smooth spectrum
+ * Highlighted elements are marked in a band beneath the strip.
+ */
+const spectrumView: SortingView = (frame) => {
+  const { renderer, left, top, width, height, bars, length } = frame
+  const slotWidth = width / length
+  const markerHeight = Math.min(8, height / 10)
+  const stripHeight = height - markerHeight * 2
+
+  for (const bar of bars) {
+    const x = left + bar.position * slotWidth
+    // Overlap neighbours slightly so no background shows between stripes
+    renderer.rect(x, top, slotWidth + 0.5, stripHeight, getSpectrumFill(bar, frame))
+
+    if (bar.state !== 'default') {
+      renderer.rect(x, top + stripHeight + markerHeight, slotWidth + 0.5, markerHeight, BAR_STATE_COLORS[bar.state])
+    }
+  }
+}
+
+/**
+ * Dots around a circle, drawn in toward the center by their distance from
+ * their sorted position; a sorted array is a full outer ring
+ */
+const disparityView: SortingView = (frame) => {
+  const { ctx, left, top, width, height, bars, length } = frame
+  const centerX = left + width / 2
+  const centerY = top + height / 2
+  const radius = Math.min(width, height) / 2
+  const dotRadius = Math.max(1.5, Math.min((Math.PI * radius) / length, 5))
+  const ringRadius = radius - dotRadius
+  const maxDisparity = Math.max(1, length - 1)
+
+  // Faint outline of the sorted ring
+  ctx.strokeStyle = VIZ_COLORS.gridLine
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.arc(centerX, centerY, ringRadius, 0, Math.PI * 2)
+  ctx.stroke()
+
+  for (const bar of bars) {
+    const angle = (bar.position / length) * Math.PI * 2 - Math.PI / 2
+    const r = ringRadius * (1 - bar.disparity / maxDisparity)
+    drawDot(frame, bar, centerX + Math.cos(angle) * r, centerY + Math.sin(angle) * r, dotRadius)
+  }
+}
+
+/**
+ * A ring of wedges colored by value; a sorted array is a continuous color wheel
+ * Highlighted elements get a rim in their state color.
+ */
+const wheelView: SortingView = (frame) => {
+  const { renderer, left, top, width, height, bars, length } = frame
+  const centerX = left + width / 2
+  const centerY = top + height / 2
+  const radius = Math.min(width, height) / 2
+  const rimWidth = Math.min(8, radius / 10)
+  const outerRadius = radius - rimWidth
+  const innerRadius = outerRadius * WHEEL_HOLE_RATIO
+  const slice = (Math.PI * 2) / length
+
+  for (const bar of bars) {
+    const start = bar.position * slice - Math.PI / 2
+    // Overlap neighbours slightly so no background shows between wedges
+    const end = start + slice + 0.005
+
+    addWedge(renderer, centerX, centerY, innerRadius, outerRadius, start, end, getSpectrumFill(bar, frame))
+
+    if (bar.state !== 'default') {
+      addWedge(renderer, centerX, centerY, outerRadius, radius, start, end, BAR_STATE_COLORS[bar.state])
+    }
+  }
+}
+
+/**
+ * All sorting views by name
+ */
+export const SORTING_VIEWS: Record<SortingViewName, SortingView> = {
+  bars: barsView,
+  scatter: scatterView,
+  spectrum: spectrumView,
+  disparity: disparityView,
+  wheel: wheelView,
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Set to 'history' to use clean '/path' URLs instead of '#/path' */
+  readonly VITE_ROUTER_MODE?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
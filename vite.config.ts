@@ -1,8 +1,28 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import path from 'path';
 
+/**
+ * Emit a copy of index.html as 404.html
+ * GitHub Pages serves 404.html for unknown paths, so deep links in the
+ * router's history mode (e.g. /sorting) still load the app.
+ */
+function spaFallback(): Plugin {
+  return {
+    name: 'spa-fallback',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const index = bundle['index.html'];
+      if (index?.type === 'asset') {
+        this.emitFile({ type: 'asset', fileName: '404.html', source: index.source });
+      }
+    },
+  };
+}
+
 export default defineConfig({
   base: '/',
+  plugins: [spaFallback()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),